@@ -1,567 +1,797 @@
 import type { gsap } from 'gsap';
-import type { OffsetPathOptions } from './types';
+import type { OffsetPathOptions, OffsetPathState, OffsetProfile, OffsetPathVars, OffsetValue } from './types';
 import { JoinType, EndType } from './types';
+import type { ResolvedOptions, Precision } from './offset';
+import type { Matrix } from './geometry';
+import { invertMatrix, multiplyMatrix, isSimilarity } from './geometry';
+import type { Ring } from './flatten';
+import { prepareRings, offsetRings, offsetOutline, outlineToPathData, measurePath, resolveOptions, resolveFormat, precisionFor } from './offset';
+import type { FrameCache } from './cache';
+import { createFrameCache, cacheGet, cacheSet, cacheClear } from './cache';
+import type { OffsetPathErrorCode } from './errors';
+import { OffsetPathError } from './errors';
+import { checkPathData } from './api';
+import { parseAnchor } from './anchor';
+import type { ShapeBinding, ShapeElement } from './shapes';
+import { isShapeElement, shapeToPathData, shapeBinding, bindShape, outputElement, applyNativeOffset, restoreShape } from './shapes';
+import { contourSet, syncContours, removeContours } from './contours';
+import type { GroupBinding } from './groups';
+import { bindGroup, memberOutput, mergedOutput, unmerge, restoreGroup, groupRings, groupPlacements } from './groups';
+import type { CssClipBinding } from './clips';
+import { isClipContainer, clipReference, contentTransform, bindCssClip, writeCssClip, restoreCssClip } from './clips';
+import type { StrokeBinding } from './stroke';
+import { bindStroke, paintStroke, restoreStroke } from './stroke';
+import type { ParsedValue } from './values';
+import { targetVars, parseValue, resolveNumbers, resolveOffset } from './values';
+import type { OffsetEngine } from './engine';
+import { setEngine } from './engine';
 
 // ---------------------------------------------------------------------------
-// Constants (match Rust defaults)
+// Element state: what tweens leave on an element for the next one, by element
 // ---------------------------------------------------------------------------
-const SCALE = 1000.0;
-const FLATTEN_TOLERANCE = 0.1;
 
-// ---------------------------------------------------------------------------
-// 2D point helpers
-// ---------------------------------------------------------------------------
-type Pt = [number, number];
-
-function sub(a: Pt, b: Pt): Pt { return [a[0] - b[0], a[1] - b[1]]; }
-function add(a: Pt, b: Pt): Pt { return [a[0] + b[0], a[1] + b[1]]; }
-function scale2(a: Pt, s: number): Pt { return [a[0] * s, a[1] * s]; }
-function dot(a: Pt, b: Pt): number { return a[0] * b[0] + a[1] * b[1]; }
-function cross(a: Pt, b: Pt): number { return a[0] * b[1] - a[1] * b[0]; }
-function len(a: Pt): number { return Math.sqrt(a[0] * a[0] + a[1] * a[1]); }
-function norm(a: Pt): Pt {
-  const l = len(a);
-  return l > 1e-10 ? [a[0] / l, a[1] / l] : [0, 0];
+interface CachedRings {
+  pathData: string;
+  precision: Precision;
+  maxVertices: number | null;
+  rings: Ring[] | null;
+}
+
+interface ElementState {
+  /** Offset and options last rendered, where the next tween starts */
+  offset?: number;
+  options?: ResolvedOptions;
+  /** Frame last drawn, read back by getState; geometry is measured on request */
+  frame?: { offset: number; d: string; collapsed: boolean; geometry: Pick<OffsetPathState, 'bbox' | 'area'> | null };
+  /** Path data last written, and the outline it was offset from */
+  source?: { original: string; written: string };
+  /** Rings prepared from the outline last offset */
+  rings?: CachedRings;
+  /** Plugin data of the tweens holding the element, put back when the last lets go */
+  tweens?: Set<any>;
+  /** Inline visibility before the first tween */
+  visibility?: string;
+}
+
+const elements = new WeakMap<Element, ElementState>();
+
+function stateOf(el: Element): ElementState {
+  let state = elements.get(el);
+  if (!state) elements.set(el, state = {});
+  return state;
 }
-// Outward normal for SVG coordinates (Y-down, CW winding convention)
-function perpNormal(e: Pt): Pt { return [e[1], -e[0]]; }
 
 // ---------------------------------------------------------------------------
-// SVG path parser (port of parse_svg_to_lyon from lib.rs)
-// Handles M, m, L, l, C, c, Q, q, Z, z
-// Returns array of subpaths, each a flat [x,y] array
+// Tween state: option sets at both ends of a tween and the blend between them
 // ---------------------------------------------------------------------------
 
-interface ParseState {
-  src: string;
-  pos: number;
+// Position of a join on the miter (0) → round (1) scale, null for joins
+// that have no place on it (Bevel, Square)
+function joinRoundness(o: ResolvedOptions): number | null {
+  if (o.roundness !== null) return o.roundness;
+  if (o.joinType === JoinType.Miter) return 0;
+  if (o.joinType === JoinType.Round) return 1;
+  return null;
 }
 
-function skipSep(s: ParseState): void {
-  while (s.pos < s.src.length) {
-    const ch = s.src[s.pos];
-    if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === ',') {
-      s.pos++;
-    } else {
-      break;
-    }
-  }
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
 }
 
-function parseNumber(s: ParseState): number {
-  skipSep(s);
-  let start = s.pos;
-  if (s.src[s.pos] === '-' || s.src[s.pos] === '+') s.pos++;
-  while (s.pos < s.src.length && s.src[s.pos] >= '0' && s.src[s.pos] <= '9') s.pos++;
-  if (s.pos < s.src.length && s.src[s.pos] === '.') {
-    s.pos++;
-    while (s.pos < s.src.length && s.src[s.pos] >= '0' && s.src[s.pos] <= '9') s.pos++;
-  }
-  if (s.pos < s.src.length && (s.src[s.pos] === 'e' || s.src[s.pos] === 'E')) {
-    s.pos++;
-    if (s.pos < s.src.length && (s.src[s.pos] === '-' || s.src[s.pos] === '+')) s.pos++;
-    while (s.pos < s.src.length && s.src[s.pos] >= '0' && s.src[s.pos] <= '9') s.pos++;
-  }
-  return parseFloat(s.src.slice(start, s.pos));
+// A missing anchor on one side takes the other side's value
+function lerpNullable(a: number | null, b: number | null, t: number): number | null {
+  if (a === null || b === null) return b ?? a;
+  return lerp(a, b, t);
 }
 
-// Parse SVG path data into subpaths of [x,y] pairs (pre-flattening, float coords).
-// Each subpath also records its cubic/quadratic segments for the flattener.
-interface Segment {
-  type: 'M' | 'L' | 'C' | 'Q';
-  pts: Pt[]; // for M/L: [to]; for C: [c1, c2, to]; for Q: [ctrl, to]
+// Keyframe profiles of the same length blend stop by stop, with no profile
+// standing in for keyframes of 1; function profiles can't be blended
+function lerpProfile(a: OffsetProfile | null, b: OffsetProfile | null, t: number): OffsetProfile | null {
+  if (typeof a === 'function' || typeof b === 'function') return b;
+  if (!a || !b) {
+    const stops = a ?? b;
+    if (!stops) return null;
+    a = a ?? stops.map(() => 1);
+    b = b ?? stops.map(() => 1);
+  }
+  if (a.length !== b.length) return b;
+  return b.map((v, i) => lerp((a as number[])[i], v, t));
 }
 
-interface Subpath {
-  segs: Segment[];
-  closed: boolean;
+// Numeric options are interpolated; Miter and Round joins (or any explicit
+// roundness) blend through rounded miters. Other changes of join or end type
+// cannot be blended and take the end value for the whole tween, as GSAP does
+// for non-numeric values.
+function interpolateOptions(from: ResolvedOptions, to: ResolvedOptions, t: number): ResolvedOptions {
+  const r0 = joinRoundness(from), r1 = joinRoundness(to);
+  const blend = r0 !== null && r1 !== null &&
+    (from.joinType !== to.joinType || from.roundness !== null || to.roundness !== null);
+
+  return {
+    profile:      lerpProfile(from.profile, to.profile, t),
+    joinType:     to.joinType,
+    endType:      to.endType,
+    roundness:    blend ? lerp(r0, r1, t) : to.roundness,
+    miterLimit:   lerp(from.miterLimit, to.miterLimit, t),
+    arcTolerance: lerp(from.arcTolerance, to.arcTolerance, t),
+    originX:      lerpNullable(from.originX, to.originX, t),
+    originY:      lerpNullable(from.originY, to.originY, t),
+    anchorX:      lerpNullable(from.anchorX, to.anchorX, t),
+    anchorY:      lerpNullable(from.anchorY, to.anchorY, t),
+    anchor:       to.anchor,
+  };
 }
 
-function parseSvgPath(pathData: string): Subpath[] {
-  const s: ParseState = { src: pathData.trim(), pos: 0 };
-  const subpaths: Subpath[] = [];
-  let current: Subpath | null = null;
-  let cx = 0, cy = 0; // current position
-  let cmd = '';
-
-  while (s.pos < s.src.length) {
-    const ch = s.src[s.pos];
-    if ((ch >= 'A' && ch <= 'Z') || (ch >= 'a' && ch <= 'z')) {
-      cmd = ch;
-      s.pos++;
-      skipSep(s);
-    }
-
-    if (cmd === 'Z' || cmd === 'z') {
-      if (current) current.closed = true;
-      cmd = '';
-      skipSep(s);
-      continue;
-    }
-
-    if (cmd === '' || ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === ',') {
-      skipSep(s);
-      if (s.pos >= s.src.length) break;
-      // If next char is a command letter, loop back
-      const nc = s.src[s.pos];
-      if ((nc >= 'A' && nc <= 'Z') || (nc >= 'a' && nc <= 'z')) continue;
-      if (cmd === '') break;
-    }
+// A fromTo renders its "from" vars before the main tween reads `d`, so a
+// `d` this plugin wrote itself resolves back to the outline it came from
+function sourcePath(target: SVGPathElement): string | null {
+  const d = target.getAttribute('d');
+  const source = elements.get(target)?.source;
+  return source && source.written === d ? source.original : d;
+}
 
-    // Peek: if next char is a letter, don't try to parse numbers
-    if (s.pos < s.src.length) {
-      const nc = s.src[s.pos];
-      if ((nc >= 'A' && nc <= 'Z') || (nc >= 'a' && nc <= 'z')) continue;
-    }
+function writePath(data: any, output: SVGElement, d: string): void {
+  output.setAttribute('d', d);
+  if (output === data._target) stateOf(output).source = { original: data._originalPath, written: d };
+}
 
-    if (cmd === 'M' || cmd === 'm') {
-      const x = parseNumber(s); skipSep(s);
-      const y = parseNumber(s);
-      const ax = cmd === 'M' ? x : cx + x;
-      const ay = cmd === 'M' ? y : cy + y;
-      current = { segs: [{ type: 'M', pts: [[ax, ay]] }], closed: false };
-      subpaths.push(current);
-      cx = ax; cy = ay;
-      // Subsequent coords after M are implicit L
-      cmd = cmd === 'M' ? 'L' : 'l';
-    } else if (cmd === 'L' || cmd === 'l') {
-      const x = parseNumber(s); skipSep(s);
-      const y = parseNumber(s);
-      const ax = cmd === 'L' ? x : cx + x;
-      const ay = cmd === 'L' ? y : cy + y;
-      if (!current) { current = { segs: [{ type: 'M', pts: [[ax, ay]] }], closed: false }; subpaths.push(current); }
-      current.segs.push({ type: 'L', pts: [[ax, ay]] });
-      cx = ax; cy = ay;
-    } else if (cmd === 'H' || cmd === 'h') {
-      const x = parseNumber(s);
-      const ax = cmd === 'H' ? x : cx + x;
-      if (!current) { current = { segs: [{ type: 'M', pts: [[ax, cy]] }], closed: false }; subpaths.push(current); }
-      current.segs.push({ type: 'L', pts: [[ax, cy]] });
-      cx = ax;
-    } else if (cmd === 'V' || cmd === 'v') {
-      const y = parseNumber(s);
-      const ay = cmd === 'V' ? y : cy + y;
-      if (!current) { current = { segs: [{ type: 'M', pts: [[cx, ay]] }], closed: false }; subpaths.push(current); }
-      current.segs.push({ type: 'L', pts: [[cx, ay]] });
-      cy = ay;
-    } else if (cmd === 'C' || cmd === 'c') {
-      const x1 = parseNumber(s); skipSep(s); const y1 = parseNumber(s); skipSep(s);
-      const x2 = parseNumber(s); skipSep(s); const y2 = parseNumber(s); skipSep(s);
-      const x  = parseNumber(s); skipSep(s); const y  = parseNumber(s);
-      const rel = cmd === 'c';
-      const c1: Pt = rel ? [cx + x1, cy + y1] : [x1, y1];
-      const c2: Pt = rel ? [cx + x2, cy + y2] : [x2, y2];
-      const to: Pt = rel ? [cx + x,  cy + y ] : [x,  y ];
-      if (!current) { current = { segs: [{ type: 'M', pts: [[cx, cy]] }], closed: false }; subpaths.push(current); }
-      current.segs.push({ type: 'C', pts: [c1, c2, to] });
-      cx = to[0]; cy = to[1];
-    } else if (cmd === 'Q' || cmd === 'q') {
-      const x1 = parseNumber(s); skipSep(s); const y1 = parseNumber(s); skipSep(s);
-      const x  = parseNumber(s); skipSep(s); const y  = parseNumber(s);
-      const rel = cmd === 'q';
-      const ctrl: Pt = rel ? [cx + x1, cy + y1] : [x1, y1];
-      const to: Pt   = rel ? [cx + x,  cy + y ] : [x,  y ];
-      if (!current) { current = { segs: [{ type: 'M', pts: [[cx, cy]] }], closed: false }; subpaths.push(current); }
-      current.segs.push({ type: 'Q', pts: [ctrl, to] });
-      cx = to[0]; cy = to[1];
-    } else {
-      // Unknown command — skip character
-      s.pos++;
-    }
+// Prepared rings are kept on the element, so tweens that follow each other on
+// the same outline parse and flatten it only once (null = nothing to offset;
+// strict tweens throw the reason instead)
+function cachedRings(target: Element, pathData: string, data: any, strict = false): Ring[] | null {
+  const { _precision: precision, _format: { maxVertices } } = data;
+  const state = stateOf(target);
+  const cached = state.rings;
+  if (cached && cached.pathData === pathData && cached.maxVertices === maxVertices &&
+      cached.precision.tolerance === precision.tolerance && cached.precision.scale === precision.scale &&
+      (cached.rings || !strict)) {
+    return cached.rings;
+  }
 
-    skipSep(s);
+  let rings: Ring[] | null = null;
+  try {
+    rings = prepareRings(pathData, precision, maxVertices);
+  } catch (error) {
+    if (strict || !(error instanceof OffsetPathError)) throw error;
   }
+  state.rings = { pathData, precision, maxVertices, rings };
+  return rings;
+}
 
-  return subpaths;
+// quality: 'auto': device pixels per user unit of the element when the tween
+// starts, so curves are flattened to a tenth of a device pixel
+function autoQuality(el: Element): number {
+  const ctm: Matrix | null = el instanceof SVGGraphicsElement ? el.getScreenCTM() : null;
+  const scale = ctm ? Math.sqrt(Math.abs(ctm.a * ctm.d - ctm.b * ctm.c)) : 1;
+  const ratio = el.ownerDocument.defaultView?.devicePixelRatio ?? 1;
+  return scale * ratio || 1;
 }
 
-// ---------------------------------------------------------------------------
-// Bezier flattening via De Casteljau (port of lyon flattened iterator)
-// ---------------------------------------------------------------------------
+// Transform from the element's user space into the space `offset` is
+// measured in; null for plain user units
+function measureTransform(el: Element, units: 'user' | 'screen' | Element, fixed: Matrix | null): Matrix | null {
+  if (units === 'user') return fixed;
+  const ctm: Matrix | null = el instanceof SVGGraphicsElement ? el.getScreenCTM() : null;
+  if (!ctm) return null;
+  if (units === 'screen') return ctm;
+  const ancestor: Matrix | null = units instanceof SVGGraphicsElement ? units.getScreenCTM() : null;
+  const inverse = ancestor && invertMatrix(ancestor);
+  return inverse ? multiplyMatrix(inverse, ctm) : null;
+}
 
-function flattenCubic(p0: Pt, p1: Pt, p2: Pt, p3: Pt, tol: number, out: Pt[]): void {
-  // Flatness test: max deviation of control polygon from chord
-  const ux = 3 * p1[0] - 2 * p0[0] - p3[0];
-  const uy = 3 * p1[1] - 2 * p0[1] - p3[1];
-  const vx = 3 * p2[0] - 2 * p3[0] - p0[0];
-  const vy = 3 * p2[1] - 2 * p3[1] - p0[1];
-  if (Math.max(ux * ux + uy * uy, vx * vx + vy * vy) <= 16 * tol * tol) {
-    out.push(p3);
-    return;
-  }
-  // Midpoint subdivision
-  const m01: Pt = [(p0[0] + p1[0]) / 2, (p0[1] + p1[1]) / 2];
-  const m12: Pt = [(p1[0] + p2[0]) / 2, (p1[1] + p2[1]) / 2];
-  const m23: Pt = [(p2[0] + p3[0]) / 2, (p2[1] + p3[1]) / 2];
-  const m012: Pt = [(m01[0] + m12[0]) / 2, (m01[1] + m12[1]) / 2];
-  const m123: Pt = [(m12[0] + m23[0]) / 2, (m12[1] + m23[1]) / 2];
-  const mid: Pt  = [(m012[0] + m123[0]) / 2, (m012[1] + m123[1]) / 2];
-  flattenCubic(p0, m01, m012, mid, tol, out);
-  flattenCubic(mid, m123, m23, p3, tol, out);
+// Strict tweens throw what the others warn about and skip
+function reject(strict: boolean, code: OffsetPathErrorCode, message: string, target: unknown): false {
+  if (strict) throw new OffsetPathError(code, message);
+  console.warn(`[OffsetPathPlugin] ${message}:`, target);
+  return false;
 }
 
-function flattenQuadratic(p0: Pt, p1: Pt, p2: Pt, tol: number, out: Pt[]): void {
-  // Elevate quadratic to cubic then flatten
-  const c1: Pt = [p0[0] + (2 / 3) * (p1[0] - p0[0]), p0[1] + (2 / 3) * (p1[1] - p0[1])];
-  const c2: Pt = [p2[0] + (2 / 3) * (p1[0] - p2[0]), p2[1] + (2 / 3) * (p1[1] - p2[1])];
-  flattenCubic(p0, c1, c2, p2, tol, out);
+function sameMatrix(m: Matrix | null, n: Matrix | null): boolean {
+  if (!m || !n) return m === n;
+  return m.a === n.a && m.b === n.b && m.c === n.c && m.d === n.d && m.e === n.e && m.f === n.f;
 }
 
 // ---------------------------------------------------------------------------
-// SVG path → integer points (scale + winding check)
-// Returns null if invalid (empty / < 3 points)
+// Frame rendering
 // ---------------------------------------------------------------------------
 
-function svgToPoints(pathData: string, sc: number, tol: number): Pt[] | null {
-  const subpaths = parseSvgPath(pathData);
-  if (subpaths.length === 0) return null;
-
-  // Use first subpath only (matches Rust behaviour)
-  const sp = subpaths[0];
-  const floatPts: Pt[] = [];
-
-  let cur: Pt = [0, 0];
-  for (const seg of sp.segs) {
-    if (seg.type === 'M') {
-      cur = seg.pts[0];
-      floatPts.push(cur);
-    } else if (seg.type === 'L') {
-      cur = seg.pts[0];
-      floatPts.push(cur);
-    } else if (seg.type === 'C') {
-      flattenCubic(cur, seg.pts[0], seg.pts[1], seg.pts[2], tol, floatPts);
-      cur = seg.pts[2];
-    } else if (seg.type === 'Q') {
-      flattenQuadratic(cur, seg.pts[0], seg.pts[1], tol, floatPts);
-      cur = seg.pts[1];
-    }
+// Offset and progress of a frame, plus its memo key. With a frame cache the
+// offset between the ends snaps to the cache step, and the progress follows
+// the snapped offset, so each key always stands for the same frame; the ends
+// themselves are exact, so the tween finishes where it was sent.
+function snapFrame(data: any, start: number, end: number, progress: number): [number, number, string] {
+  const offset = lerp(start, end, progress);
+  if (!data._memo) return [offset, progress, ''];
+  if (progress <= 0 || progress >= 1) {
+    return progress <= 0 ? [start, 0, 'start'] : [end, 1, 'end'];
   }
-
-  if (floatPts.length < 3) return null;
-
-  // Scale to integers
-  const pts: Pt[] = floatPts.map(([x, y]) => [Math.round(x * sc), Math.round(y * sc)]);
-
-  // Winding check via shoelace — ensure CW in screen coords (standard SVG convention).
-  // In Y-down SVG coordinates, CW paths have negative shoelace sum; CCW have positive.
-  // Reverse CCW paths (area > 0) to CW so the perpNormal points outward.
-  let area = 0;
-  for (let i = 0; i < pts.length; i++) {
-    const j = (i + 1) % pts.length;
-    area += (pts[j][0] - pts[i][0]) * (pts[j][1] + pts[i][1]);
+  if (end === start) {
+    const t = Math.round(progress * 1000) / 1000;
+    return [offset, t, 't' + t];
   }
-  if (area > 0) pts.reverse();
-
-  return pts;
+  const snapped = Math.round(offset / data._cacheStep) * data._cacheStep;
+  return [snapped, (snapped - start) / (end - start), String(snapped)];
 }
 
-// ---------------------------------------------------------------------------
-// Bounding box
-// ---------------------------------------------------------------------------
-
-interface BBox { minX: number; minY: number; maxX: number; maxY: number; }
+// Transform the offset is measured through this frame; a change (e.g. a
+// resized responsive SVG) invalidates the memoised frames
+function frameTransform(data: any, output: SVGElement): Matrix | null {
+  const transform = measureTransform(output, data._units, data._transform);
+  if (data._memo && !sameMatrix(transform, data._lastTransform)) cacheClear(data._memo);
+  data._lastTransform = transform;
+  return transform;
+}
 
-function bbox(pts: Pt[]): BBox {
-  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-  for (const [x, y] of pts) {
-    if (x < minX) minX = x;
-    if (y < minY) minY = y;
-    if (x > maxX) maxX = x;
-    if (y > maxY) maxY = y;
+// The outline offset by `offsetAmount`, '' once the shape has collapsed
+function frameOutline(
+  data: any,
+  offsetAmount: number,
+  options: ResolvedOptions,
+  transform: Matrix | null,
+  key: string,
+): string {
+  // With a fixed point count the outline is resampled even at offset 0; an
+  // offset worked out as NaN or infinite (e.g. "/=0") leaves it untouched
+  if (!isFinite(offsetAmount) || (Math.abs(offsetAmount) < 0.001 && data._format.pointCount === null)) return data._originalPath;
+
+  const rings: Ring[] | null = data._rings;
+  if (!rings) return '';
+
+  const memo: FrameCache | null = data._memo;
+  let result = memo ? cacheGet(memo, key) : undefined;
+  if (result === undefined) {
+    result = offsetRings(rings, offsetAmount, options, data._format, transform);
+    if (memo) cacheSet(memo, key, result);
   }
-  return { minX, minY, maxX, maxY };
+  return result && result.trim() !== '' ? result : '';
 }
 
-// ---------------------------------------------------------------------------
-// Points → SVG path string (port of path64_to_svg)
-// ---------------------------------------------------------------------------
-
-function pointsToSvg(pts: Pt[], sc: number): string {
-  if (pts.length === 0) return '';
-  let d = `M ${(pts[0][0] / sc).toFixed(2)} ${(pts[0][1] / sc).toFixed(2)}`;
-  for (let i = 1; i < pts.length; i++) {
-    d += ` L ${(pts[i][0] / sc).toFixed(2)} ${(pts[i][1] / sc).toFixed(2)}`;
+// Writes the outline offset by `offsetAmount` to `output`, or hides it once
+// the shape has collapsed. Returns the path data drawn, '' when hidden.
+function drawOffset(
+  data: any,
+  output: SVGElement,
+  offsetAmount: number,
+  options: ResolvedOptions,
+  transform: Matrix | null,
+  key: string,
+): string {
+  const d = frameOutline(data, offsetAmount, options, transform, key);
+  if (d === '') {
+    output.style.visibility = 'hidden';
+    return '';
   }
-  return d + ' Z';
+  output.style.visibility = 'visible';
+  writePath(data, output, d);
+  return d;
 }
 
-// ---------------------------------------------------------------------------
-// Polygon offset algorithm (vertex-bisector method, port of ClipperOffset logic)
-// ---------------------------------------------------------------------------
+// Records the frame drawn for `el` (read back by getState) and runs the
+// tween's callbacks, with collapse and restore on the change of state only
+function report(data: any, el: Element, offset: number, d: string): void {
+  const collapsed = d === '';
+  const state = stateOf(el);
+  const wasCollapsed = state.frame?.collapsed ?? false;
+  state.frame = { offset, d, collapsed, geometry: null };
+
+  const { onOffsetUpdate, onCollapse, onRestore } = data._callbacks;
+  if (collapsed && !wasCollapsed) onCollapse?.(el);
+  else if (!collapsed && wasCollapsed) onRestore?.(el);
+  onOffsetUpdate?.(d, offset, el);
+}
 
-function addRoundJoin(
-  cx: number, cy: number,
-  n1: Pt, n2: Pt,
-  offsetAmt: number,
-  arcTolerance: number,
-  result: Pt[],
-): void {
-  // Number of arc steps based on arcTolerance
-  const a1 = Math.atan2(n1[1], n1[0]);
-  const a2 = Math.atan2(n2[1], n2[0]);
-  let da = a2 - a1;
-  // Normalize to [-PI, PI]
-  while (da > Math.PI) da -= 2 * Math.PI;
-  while (da < -Math.PI) da += 2 * Math.PI;
-
-  const r = Math.abs(offsetAmt);
-  const steps = Math.max(2, Math.ceil(Math.abs(da) / (2 * Math.acos(1 - arcTolerance / r))));
-  const stepAngle = da / steps;
-
-  for (let i = 0; i <= steps; i++) {
-    const a = a1 + stepAngle * i;
-    result.push([Math.round(cx + Math.cos(a) * offsetAmt), Math.round(cy + Math.sin(a) * offsetAmt)]);
+// Contour mode: ring k runs from its last offset to k × offset over its own
+// slice of the tween, each slice starting `stagger` after the one before
+function renderContours(progress: number, data: any): void {
+  const { set, starts, ends, stagger } = data._contours;
+  const span = 1 - stagger * (starts.length - 1);
+  set.options = interpolateOptions(data._fromOptions, data._toOptions, progress);
+
+  for (let k = 0; k < set.elements.length; k++) {
+    const output: SVGPathElement = set.elements[k];
+    const begin = stagger * k;
+    const local = span > 0 ? Math.min(Math.max((progress - begin) / span, 0), 1) : progress >= begin ? 1 : 0;
+    try {
+      const [offsetAmount, t, key] = snapFrame(data, starts[k], ends[k], local);
+      set.offsets[k] = offsetAmount;
+      const options = interpolateOptions(data._fromOptions, data._toOptions, t);
+      const d = drawOffset(data, output, offsetAmount, options, frameTransform(data, output), k + ':' + key);
+      report(data, output, offsetAmount, d);
+    } catch (error) {
+      output.style.visibility = 'hidden';
+      if (data._strict) throw error;
+      console.error('[OffsetPathPlugin] Error during render:', error);
+    }
   }
 }
 
-function offsetPolygon(
-  pts: Pt[],
-  offsetAmt: number,
-  joinType: JoinType,
-  endType: EndType,
-  miterLimit: number,
-  arcTolerance: number,
-): Pt[] {
-  const n = pts.length;
-  if (n < 3) return [];
-  const result: Pt[] = [];
-
-  // For closed polygon (EndType.Polygon / Joined), process all vertices
-  const isOpen = endType === EndType.Butt || endType === EndType.Square || endType === EndType.Round;
-  const loopCount = isOpen ? n - 1 : n;
-
-  for (let i = 0; i < loopCount; i++) {
-    const prev = pts[(i - 1 + n) % n];
-    const curr = pts[i];
-    const next = pts[(i + 1) % n];
-
-    // Edge vectors
-    const e1 = norm(sub(curr, prev));
-    const e2 = norm(sub(next, curr));
-
-    // Outward normals for each edge (left normal for CCW)
-    const outN1: Pt = perpNormal(e1);
-    const outN2: Pt = perpNormal(e2);
-
-    // Cross product of edge vectors: positive = left turn (convex corner for CCW)
-    const cr = cross(e1, e2);
-    // Dot product: cosine of angle between edges
-    const dp = dot(e1, e2);
-
-    // For concave corners (right turns, cr < 0) when offsetting outward,
-    // or convex corners when offsetting inward — just use bisector
-    const offsetDir = offsetAmt > 0 ? 1 : -1;
-    const isConvex = cr * offsetDir > 0;
-
-    if (!isConvex || Math.abs(cr) < 1e-6) {
-      // Concave corner or nearly parallel: bisector point
-      const bisect = norm(add(outN1, outN2));
-      const sinHalf = -cross(e1, bisect);
-      if (Math.abs(sinHalf) < 1e-6) {
-        // Parallel edges: simple offset along normal
-        result.push([Math.round(curr[0] + outN1[0] * offsetAmt), Math.round(curr[1] + outN1[1] * offsetAmt)]);
+// Offsets of every member of a group, anchored together on the group's box.
+// Members with nothing to offset keep their own outline.
+function offsetMembers(data: any, offsetAmount: number, options: ResolvedOptions, transform: Matrix | null): string[] {
+  const { binding, rings, source } = data._group;
+  const members = (binding as GroupBinding).members;
+  if (!isFinite(offsetAmount) || (Math.abs(offsetAmount) < 0.001 && data._format.pointCount === null)) return members.map((m) => m.pathData);
+
+  // Measured in the group's user space, or through it
+  const memberOptions: ResolvedOptions = { ...options, originX: null, originY: null, anchorX: null, anchorY: null, anchor: null };
+  const outlines = members.map((member, i) => rings[i] && offsetOutline(
+    rings[i], offsetAmount, memberOptions, data._format,
+    transform ? multiplyMatrix(transform, member.toGroup) : member.toGroup,
+  ));
+  const placements = groupPlacements(members, outlines, source, options);
+  return outlines.map((outline, i) => {
+    if (!rings[i]) return members[i].pathData;
+    return outline ? outlineToPathData(outline, data._format, placements[i]) : '';
+  });
+}
+
+// Group mode: the members are offset alike, or in merge mode their union is
+// drawn by a single path in the group
+function renderGroup(progress: number, data: any): void {
+  const { binding, merge } = data._group as { binding: GroupBinding; merge: boolean };
+  const [offsetAmount, t, key] = snapFrame(data, data._startOffset, data._endOffset, progress);
+  const options = interpolateOptions(data._fromOptions, data._toOptions, t);
+
+  const state = stateOf(binding.group);
+  state.offset = offsetAmount;
+  state.options = options;
+
+  try {
+    // Clip paths and masks are measured through the element they apply to
+    const measured = frameTransform(data, data._user ?? binding.group);
+    const content: Matrix | null = data._content;
+    const transform = content && measured ? multiplyMatrix(measured, content) : content ?? measured;
+
+    if (merge) {
+      if (Math.abs(offsetAmount) < 0.001 && data._format.pointCount === null) {
+        unmerge(binding);
+        report(data, binding.group, offsetAmount, data._originalPath);
       } else {
-        const dist = offsetAmt / sinHalf;
-        result.push([Math.round(curr[0] + bisect[0] * dist), Math.round(curr[1] + bisect[1] * dist)]);
-      }
-    } else {
-      // Convex corner
-      switch (joinType) {
-        case JoinType.Miter: {
-          const bisect = norm(add(outN1, outN2));
-          const sinHalf = -cross(e1, bisect);
-          if (Math.abs(sinHalf) > 1e-6) {
-            const dist = offsetAmt / sinHalf;
-            if (Math.abs(dist) <= miterLimit * Math.abs(offsetAmt)) {
-              result.push([Math.round(curr[0] + bisect[0] * dist), Math.round(curr[1] + bisect[1] * dist)]);
-              break;
-            }
-          }
-          // Miter limit exceeded → fall through to bevel
-        }
-        // eslint-disable-next-line no-fallthrough
-        case JoinType.Bevel:
-        case JoinType.Square: {
-          // Add two points: one for each adjacent edge normal
-          result.push([Math.round(curr[0] + outN1[0] * offsetAmt), Math.round(curr[1] + outN1[1] * offsetAmt)]);
-          result.push([Math.round(curr[0] + outN2[0] * offsetAmt), Math.round(curr[1] + outN2[1] * offsetAmt)]);
-          break;
-        }
-        case JoinType.Round:
-        default: {
-          addRoundJoin(curr[0], curr[1], outN1, outN2, offsetAmt, arcTolerance, result);
-          break;
-        }
+        const d = drawOffset(data, mergedOutput(binding), offsetAmount, options, transform, key);
+        report(data, binding.group, offsetAmount, d);
       }
+      return;
     }
-  }
 
-  // Handle open path end caps
-  if (isOpen && n >= 2) {
-    // Start cap
-    const startPt = pts[0];
-    const startEdge = norm(sub(pts[1], pts[0]));
-    const startNorm: Pt = perpNormal(startEdge);
-    const backDir: Pt = [-startEdge[0], -startEdge[1]];
-
-    if (endType === EndType.Round) {
-      addRoundJoin(startPt[0], startPt[1], [-startNorm[0], -startNorm[1]], startNorm, offsetAmt, arcTolerance, result);
-    } else if (endType === EndType.Square) {
-      result.unshift(
-        [Math.round(startPt[0] - startNorm[0] * offsetAmt + backDir[0] * offsetAmt), Math.round(startPt[1] - startNorm[1] * offsetAmt + backDir[1] * offsetAmt)],
-        [Math.round(startPt[0] + startNorm[0] * offsetAmt + backDir[0] * offsetAmt), Math.round(startPt[1] + startNorm[1] * offsetAmt + backDir[1] * offsetAmt)],
-      );
-    } else {
-      // Butt: nothing extra at ends
+    const memo: FrameCache | null = data._memo;
+    let drawn = memo ? binding.members.map((_, i) => cacheGet(memo, i + ':' + key)) : [];
+    if (!memo || drawn.includes(undefined)) {
+      drawn = offsetMembers(data, offsetAmount, options, transform);
+      if (memo) drawn.forEach((d, i) => cacheSet(memo, i + ':' + key, d!));
     }
 
-    // End cap
-    const endPt = pts[n - 1];
-    const endEdge = norm(sub(pts[n - 1], pts[n - 2]));
-    const endNorm: Pt = perpNormal(endEdge);
-
-    if (endType === EndType.Round) {
-      addRoundJoin(endPt[0], endPt[1], endNorm, [-endNorm[0], -endNorm[1]], offsetAmt, arcTolerance, result);
-    } else if (endType === EndType.Square) {
-      result.push(
-        [Math.round(endPt[0] + endNorm[0] * offsetAmt + endEdge[0] * offsetAmt), Math.round(endPt[1] + endNorm[1] * offsetAmt + endEdge[1] * offsetAmt)],
-        [Math.round(endPt[0] - endNorm[0] * offsetAmt + endEdge[0] * offsetAmt), Math.round(endPt[1] - endNorm[1] * offsetAmt + endEdge[1] * offsetAmt)],
-      );
-    }
+    binding.members.forEach((member, i) => {
+      const output = memberOutput(member);
+      const d = drawn[i]!;
+      if (d === '') {
+        output.style.visibility = 'hidden';
+      } else {
+        output.style.visibility = 'visible';
+        output.setAttribute('d', d);
+      }
+      report(data, member.el, offsetAmount, d);
+    });
+  } catch (error) {
+    if (data._strict) throw error;
+    console.error('[OffsetPathPlugin] Error during render:', error);
+  }
+}
+
+// CSS clip-path mode: the offset path is written to the element's style,
+// where an empty path clips everything away
+function renderCss(progress: number, data: any): void {
+  const binding: CssClipBinding = data._css;
+  const [offsetAmount, t, key] = snapFrame(data, data._startOffset, data._endOffset, progress);
+  const options = interpolateOptions(data._fromOptions, data._toOptions, t);
+
+  const state = stateOf(data._target);
+  state.offset = offsetAmount;
+  state.options = options;
+
+  try {
+    const d = frameOutline(data, offsetAmount, options, frameTransform(data, data._target), key);
+    writeCssClip(binding, d);
+    report(data, data._target, offsetAmount, d);
+  } catch (error) {
+    writeCssClip(binding, '');
+    if (data._strict) throw error;
+    console.error('[OffsetPathPlugin] Error during render:', error);
   }
+}
 
-  return result;
+// An element clipped or masked by SVG geometry reads back the offset of its
+// <clipPath> or <mask>
+function stateElement(el: Element): Element {
+  const state = elements.get(el);
+  if (state?.frame || state?.offset !== undefined || !(el instanceof Element)) return el;
+  return clipReference(el) ?? el;
 }
 
 // ---------------------------------------------------------------------------
-// Main offset orchestrator (replaces wasmModule.offset_svg_path)
+// Restore: elements are put back as they were once no tween holds them
 // ---------------------------------------------------------------------------
 
-function offsetSvgPath(
-  pathData: string,
-  offsetAmt: number,
-  joinType: number,
-  endType: number,
-  miterLimit: number,
-  arcTolerance: number,
-  originX: number | null,
-  originY: number | null,
-): string {
-  if (!isFinite(offsetAmt) || Math.abs(offsetAmt) < 0.001) return pathData;
-
-  const pts = svgToPoints(pathData, SCALE, FLATTEN_TOLERANCE);
-  if (!pts || pts.length < 3) return '';
-
-  const jt: JoinType = (joinType as JoinType) ?? JoinType.Round;
-  const et: EndType  = (endType  as EndType)  ?? EndType.Polygon;
-
-  const offsetPts = offsetPolygon(pts, offsetAmt * SCALE, jt, et, miterLimit, arcTolerance);
-  if (offsetPts.length < 3) return '';
-
-  // Anchor translation (port of Rust origin_x / origin_y logic)
-  if (originX !== null || originY !== null) {
-    const origBox = bbox(pts);
-    const offBox  = bbox(offsetPts);
+// gsap.core.reverting() of the GSAP the plugin is registered with
+let reverting: () => unknown = () => false;
 
-    const dx = originX !== null
-      ? Math.round((origBox.minX + (origBox.maxX - origBox.minX) * originX)
-                 - (offBox.minX  + (offBox.maxX  - offBox.minX)  * originX))
-      : 0;
-    const dy = originY !== null
-      ? Math.round((origBox.minY + (origBox.maxY - origBox.minY) * originY)
-                 - (offBox.minY  + (offBox.maxY  - offBox.minY)  * originY))
-      : 0;
+// Whether a tween other than `except` still holds `el`. Tweens that were
+// killed, or completed and left their timeline, hold nothing.
+function held(el: Element, except?: unknown): boolean {
+  for (const data of elements.get(el)?.tweens ?? []) {
+    if (data !== except && data._tween.parent) return true;
+  }
+  return false;
+}
 
-    if (dx !== 0 || dy !== 0) {
-      for (const p of offsetPts) { p[0] += dx; p[1] += dy; }
-    }
+function restore(data: any): void {
+  const target: Element = data._target;
+  if (data._contours) {
+    removeContours(target);
+  } else if (data._group) {
+    const binding: GroupBinding = data._group.binding;
+    restoreGroup(binding);
+    for (const member of binding.members) elements.delete(member.el);
+  } else if (data._css) {
+    restoreCssClip(data._css);
+  } else if (data._shape) {
+    if (data._stroke) restoreStroke(target, data._stroke);
+    restoreShape(data._shape);
+  } else {
+    const stroke: StrokeBinding | null = data._stroke;
+    target.setAttribute('d', stroke ? stroke.source : data._originalPath);
+    if (stroke) restoreStroke(target, stroke);
+    (target as SVGPathElement).style.visibility = elements.get(target)?.visibility ?? '';
   }
+  elements.delete(target);
+}
 
-  return pointsToSvg(offsetPts, SCALE);
+// Lets go of the element for a killed or reverted tween and puts it back,
+// unless another tween still holds it: then it returns true
+function release(data: any): boolean {
+  if (!elements.get(data._target)?.tweens?.delete(data)) return false;
+  if (held(data._target)) return true;
+  restore(data);
+  return false;
 }
 
 // ---------------------------------------------------------------------------
 // GSAP Plugin
 // ---------------------------------------------------------------------------
 
-export const OffsetPathPlugin: gsap.Plugin = {
+export interface OffsetPathPluginStatic extends gsap.Plugin {
+  /** Offset last rendered on an element (0 when it has none) */
+  getOffset(el: Element): number;
+  /** Outline last rendered on an element, or null when none has been */
+  getState(el: Element): OffsetPathState | null;
+  /**
+   * Offsets with `engine` (e.g. wasmEngine) from now on, in tweens and the
+   * standalone API alike; null goes back to the built-in engine
+   */
+  useEngine(engine: OffsetEngine | null): void;
+  /**
+   * Stops `tween` offsetting its targets and puts them back as they were,
+   * once no other tween offsets them; its other properties play on
+   */
+  revert(tween: gsap.core.Tween): void;
+}
+
+export const OffsetPathPlugin: OffsetPathPluginStatic = {
   name: 'offsetPath',
   version: '2.0.0',
+  // Function values are resolved in init: profiles and callbacks are functions too
+  rawVars: 1,
+
+  getOffset(el: Element): number {
+    const state = elements.get(stateElement(el));
+    return state?.frame?.offset ?? state?.offset ?? 0;
+  },
 
-  init(target: any, value: OffsetPathOptions | number) {
-    if (!(target instanceof SVGPathElement)) {
-      console.warn('[OffsetPathPlugin] Target must be SVGPathElement, got:', target);
-      return false;
+  getState(el: Element): OffsetPathState | null {
+    const state = elements.get(stateElement(el))?.frame;
+    if (!state) return null;
+    // Measured on first request and kept until the next frame
+    if (!state.geometry) state.geometry = measurePath(state.d);
+    const { offset, d, collapsed } = state;
+    return { offset, d, collapsed, ...state.geometry };
+  },
+
+  useEngine(engine: OffsetEngine | null): void {
+    setEngine(engine);
+  },
+
+  revert(tween: gsap.core.Tween): void {
+    tween.kill(tween.targets(), 'offsetPath');
+  },
+
+  register(gsap) {
+    // Not in GSAP's typings
+    reverting = (gsap.core as any).reverting ?? reverting;
+  },
+
+  init(target: any, value: OffsetPathVars | OffsetValue, tween?: gsap.core.Tween, index = 0, targets: object[] = [target]) {
+    // Numbers are resolved once the target (or the clip path it stands for) is known
+    const vars = targetVars(value, tween, index, target, targets);
+    const options = vars as OffsetPathOptions;
+    const strict = !!options.strict;
+
+    // Other elements animate the <clipPath> or <mask> applied to them, or
+    // their CSS clip-path: path(); contours need geometry of their own
+    let user: Element | null = null;
+    let css: CssClipBinding | null = null;
+    if (!options.contours && target instanceof Element && !(target instanceof SVGPathElement) &&
+        !(target instanceof SVGGElement) && !isShapeElement(target) && !isClipContainer(target)) {
+      const clip = clipReference(target);
+      if (clip) {
+        user = target;
+        target = clip;
+      } else {
+        css = bindCssClip(target as HTMLElement | SVGElement);
+      }
     }
 
-    const originalPath = target.getAttribute('d');
-    if (!originalPath) {
-      console.warn("[OffsetPathPlugin] Path element has no 'd' attribute");
-      return false;
+    const isPath = target instanceof SVGPathElement;
+    const isGroup = target instanceof SVGGElement || isClipContainer(target);
+    if (target instanceof SVGTextElement && !css) {
+      return reject(strict, 'InvalidTarget', 'Text has no outline to offset; convert it to paths and target those or their <g>', target);
+    }
+    if (!isPath && !isGroup && !css && !isShapeElement(target)) {
+      return reject(strict, 'InvalidTarget', 'Target must be SVGPathElement, a basic shape (circle, ellipse, rect, polygon, polyline, line), a <g>, <clipPath> or <mask>, or an element clipped or masked by one or by a CSS path()', target);
     }
 
-    const options: OffsetPathOptions =
-      typeof value === 'number' ? { offset: value } : { ...value };
+    let offsetValue: ParsedValue;
+    try {
+      offsetValue = parseValue(vars.offset, 'offset', true);
+      resolveNumbers(vars, elements.get(target)?.options);
+    } catch (error) {
+      if (!(error instanceof OffsetPathError)) throw error;
+      return reject(strict, error.code, error.message, target);
+    }
+    if (!Number.isFinite(offsetValue.amount)) {
+      return reject(strict, 'InvalidOption', `Offset amount is NaN or infinite: ${vars.offset}`, target);
+    }
+    // In tween units; "%" is of the bounding box of `geometry`
+    const offsetOf = (base: number, geometry: string | null): number => resolveOffset(offsetValue, base, geometry, user ?? target);
+    if (options.anchor !== undefined) {
+      try {
+        parseAnchor(options.anchor);
+      } catch (error) {
+        if (!(error instanceof OffsetPathError)) throw error;
+        return reject(strict, error.code, error.message, target);
+      }
+    }
+    if (isGroup && options.contours) {
+      return reject(strict, 'InvalidOption', 'Contours are drawn around a single path or shape, not a <g>, <clipPath> or <mask>', target);
+    }
+    if (options.strokeOutline && (isGroup || css || options.contours)) {
+      return reject(strict, 'InvalidOption', 'strokeOutline outlines the stroke of a single path or shape, without contours', target);
+    }
+    // Lines and polylines are open: filled as polygons they would collapse, so
+    // they are outlined with butt ends unless a tween has said otherwise
+    if ((target instanceof SVGLineElement || target instanceof SVGPolylineElement) && options.endType === undefined &&
+        !options.strokeOutline && !elements.get(target)?.options && !contourSet(target)?.options) {
+      options.endType = EndType.Butt;
+    }
+    const quality = options.quality === 'auto' ? autoQuality(user ?? target) : options.quality ?? 1;
+    if (!(quality > 0) || !Number.isFinite(quality)) {
+      return reject(strict, 'InvalidOption', `quality must be a positive number or 'auto', got ${options.quality}`, target);
+    }
 
     const data = this as any;
+    data._format = resolveFormat(options);
+    if (data._format.pointCount !== null) data._format.pointCount = Math.max(3, Math.floor(data._format.pointCount));
+    if (data._format.maxVertices !== null) data._format.maxVertices = Math.max(3, Math.floor(data._format.maxVertices));
+    data._precision = precisionFor(quality);
+    data._units       = options.units ?? 'user';
+    data._transform   = options.transform ?? null;
+    data._lastTransform = null;
+    data._callbacks = { onOffsetUpdate: options.onOffsetUpdate, onCollapse: options.onCollapse, onRestore: options.onRestore };
+    data._group = null;
+    data._user = user;
+    data._content = user && isClipContainer(target) ? contentTransform(target, user) : null;
+    data._css = css;
+    data._stroke = null;
+    const strokeStyle = typeof options.strokeOutline === 'object' ? options.strokeOutline : {};
+
+    let originalPath: string | null;
+    if (options.contours) {
+      // Contour mode: the target stays as it is; its rings start from where
+      // the last contour tween left them
+      const shape = shapeBinding(target);
+      originalPath = isPath ? sourcePath(target) : shape?.pathData ?? shapeToPathData(target as ShapeElement);
+      if (!originalPath) {
+        return reject(strict, 'EmptyPath', 'Target has no geometry to draw contours from', target);
+      }
+      if (strict) checkPathData(originalPath);
+      // Relative offsets step on from the spacing of the last contour tween
+      const offset = offsetOf(contourSet(target)?.offsets[0] ?? 0, originalPath);
+      const count = Math.max(1, Math.floor(options.contours));
+      const set = syncContours(target, shape?.proxy ?? target, count, offset > 0);
+      data._toOptions   = resolveOptions(options, set.options ?? undefined);
+      data._fromOptions = set.options ?? data._toOptions;
+      data._contours = {
+        set,
+        starts: set.offsets.slice(),
+        ends: set.elements.map((_, i) => offset * (i + 1)),
+        stagger: count > 1 ? Math.min(Math.max(options.stagger ?? 0, 0), 1 / (count - 1)) : 0,
+      };
+      data._shape = null;
+    } else {
+      // A fromTo's "from" vars are rendered first by GSAP, so the options last
+      // rendered on the element are where this tween starts
+      const current = elements.get(target);
+      data._toOptions   = resolveOptions(options, current?.options);
+      data._fromOptions = current?.options ?? data._toOptions;
+      data._startOffset = current?.offset ?? 0;
+      data._contours = null;
+
+      if (css) {
+        originalPath = css.pathData;
+        if (strict) checkPathData(originalPath);
+        data._endOffset = offsetOf(data._startOffset, originalPath);
+        data._shape = null;
+      } else if (isGroup) {
+        const binding = bindGroup(target);
+        if (!binding) {
+          return reject(strict, 'EmptyPath', 'Group has no paths or shapes to offset', target);
+        }
+        let rings: (Ring[] | null)[];
+        try {
+          rings = binding.members.map((member) => {
+            if (strict) checkPathData(member.pathData);
+            return cachedRings(member.el, member.pathData, data, strict);
+          });
+          // Members larger than the grid may have been scaled down: the group is
+          // worked at a scale they all fit
+          const scale = Math.min(...rings.map((r) => r?.[0].scale ?? Infinity));
+          if (rings.some((r) => r && r[0].scale !== scale)) {
+            data._precision = { ...data._precision, scale };
+            rings = binding.members.map((member, i) => rings[i] && cachedRings(member.el, member.pathData, data, strict));
+          }
+        } catch (error) {
+          if (!held(target)) restoreGroup(binding);
+          throw error;
+        }
+        // Anchored as a whole; merge mode offsets these rings at once
+        const source = groupRings(binding.members, rings);
+        data._group = { binding, rings, source, merge: !!options.merge };
+        const scale = source[0]?.scale ?? data._precision.scale;
+        const origin = source[0]?.origin ?? [0, 0];
+        originalPath = outlineToPathData({ rings: source.map((ring) => ring.points), arcs: null, scale, origin }, data._format);
+        data._endOffset = offsetOf(data._startOffset, originalPath);
+        data._shape = null;
+      } else if (isPath) {
+        originalPath = sourcePath(target);
+        if (!originalPath) {
+          return reject(strict, 'EmptyPath', "Path element has no 'd' attribute", target);
+        }
+        if (strict) checkPathData(originalPath);
+        data._endOffset = offsetOf(data._startOffset, originalPath);
+        if (options.strokeOutline) {
+          const stroke = bindStroke(target, originalPath, strokeStyle, data._precision);
+          if (!stroke.pathData) {
+            restoreStroke(target, stroke);
+            return reject(strict, 'EmptyPath', 'Stroke draws nothing to outline', target);
+          }
+          paintStroke(stroke, target);
+          originalPath = stroke.pathData;
+          data._stroke = stroke;
+        }
+        data._shape = null;
+      } else {
+        const existing = shapeBinding(target);
+        data._endOffset = offsetOf(data._startOffset, existing?.pathData ?? shapeToPathData(target as ShapeElement));
+        const ends = [0, 1].map((t) => ({
+          offset: t ? data._endOffset : data._startOffset,
+          ...interpolateOptions(data._fromOptions, data._toOptions, t),
+        }));
+        // Circles and rects stay circles and rects only under uniform scaling,
+        // and have no vertices to count
+        const transform = measureTransform(target, data._units, data._transform);
+        // Stroke outlines are drawn on the proxy
+        const native = !options.strokeOutline && (!transform || isSimilarity(transform)) && data._format.pointCount === null;
+        const shape = bindShape(target, ends, native);
+        if (!shape) {
+          return reject(strict, 'EmptyPath', 'Shape element has no geometry', target);
+        }
+        originalPath = shape.pathData;
+        if (options.strokeOutline) {
+          // Read before the proxy takes the shape's place in the document
+          const stroke = bindStroke(target, originalPath, strokeStyle, data._precision);
+          if (!stroke.pathData) {
+            restoreStroke(target, stroke);
+            return reject(strict, 'EmptyPath', 'Stroke draws nothing to outline', target);
+          }
+          paintStroke(stroke, outputElement(shape));
+          originalPath = stroke.pathData;
+          data._stroke = stroke;
+        }
+        data._shape = shape;
+      }
+    }
+
     data._target = target;
     data._originalPath = originalPath;
-    data._options = {
-      joinType:      options.joinType      ?? JoinType.Round,
-      endType:       options.endType       ?? EndType.Polygon,
-      miterLimit:    options.miterLimit    ?? 2.0,
-      arcTolerance:  options.arcTolerance  ?? 0.25,
-      originX:       options.originX       ?? null,
-      originY:       options.originY       ?? null,
-    };
-
-    data._startOffset = (target as any).__gsapOffsetPath ?? 0;
-    data._endOffset   = options.offset;
+    data._rings = data._group ? (data._group.source.length > 0 ? data._group.source : null) : cachedRings(target, originalPath, data, strict);
+    data._strict = strict;
+    data._cacheStep = options.cacheStep ?? 0;
+    // Function profiles may read state of their own, so their frames can't be reused
+    const dynamic = typeof data._fromOptions.profile === 'function' || typeof data._toOptions.profile === 'function';
+    data._memo = data._cacheStep > 0 && !dynamic ? createFrameCache(options.cacheLimit ?? 256) : null;
+
+    // Killing or reverting the tween lets go of the element. The "from" half
+    // of a fromTo is rendered by a tween of its own, which holds nothing.
+    const state = stateOf(target);
+    if (state.visibility === undefined) state.visibility = target.style.visibility;
+    data._tween = tween;
+    if (tween && tween.data !== 'isStart' && tween.data !== 'isFromStart') {
+      if (!state.tweens) state.tweens = new Set();
+      state.tweens.add(data);
+    }
+    this._props.push('offsetPath');
 
     return true;
   },
 
   render(progress: number, data: any) {
-    const offsetAmount =
-      data._startOffset + (data._endOffset - data._startOffset) * progress;
+    // tween.revert() and gsap.context().revert() render the start while
+    // reverting: an element another tween still holds is drawn there
+    if (reverting() && !release(data)) return;
+    if (data._contours) {
+      renderContours(progress, data);
+      return;
+    }
+    if (data._group) {
+      renderGroup(progress, data);
+      return;
+    }
+    if (data._css) {
+      renderCss(progress, data);
+      return;
+    }
 
-    (data._target as any).__gsapOffsetPath = offsetAmount;
+    const [offsetAmount, t, key] = snapFrame(data, data._startOffset, data._endOffset, progress);
+    const options = interpolateOptions(data._fromOptions, data._toOptions, t);
 
-    try {
-      if (Math.abs(offsetAmount) < 0.001) {
-        data._target.style.visibility = 'visible';
-        data._target.setAttribute('d', data._originalPath);
-        return;
-      }
+    const state = stateOf(data._target);
+    state.offset = offsetAmount;
+    state.options = options;
+
+    const shape: ShapeBinding | null = data._shape;
+    // Basic shapes are written to through their own attributes or a <path> proxy
+    const output: SVGElement = shape ? outputElement(shape) : data._target;
 
-      const result = offsetSvgPath(
-        data._originalPath,
-        offsetAmount,
-        data._options.joinType,
-        data._options.endType,
-        data._options.miterLimit,
-        data._options.arcTolerance,
-        data._options.originX,
-        data._options.originY,
-      );
-
-      if (!result || result.trim() === '') {
-        data._target.style.visibility = 'hidden';
+    try {
+      const transform = frameTransform(data, output);
+
+      if (shape && shape.native) {
+        // Native shapes only run under similarity transforms, which scale
+        // every direction alike
+        const scale = transform ? Math.sqrt(Math.abs(transform.a * transform.d - transform.b * transform.c)) : 1;
+        const visible = applyNativeOffset(
+          shape,
+          offsetAmount / scale,
+          options.joinType,
+          options.roundness,
+          options.originX,
+          options.originY,
+        );
+        output.style.visibility = visible ? 'visible' : 'hidden';
+        report(data, data._target, offsetAmount, visible ? shapeToPathData(shape.el) ?? '' : '');
         return;
       }
 
-      data._target.style.visibility = 'visible';
-      data._target.setAttribute('d', result);
+      const d = drawOffset(data, output, offsetAmount, options, transform, key);
+      report(data, data._target, offsetAmount, d);
     } catch (error) {
+      output.style.visibility = 'hidden';
+      if (data._strict) throw error;
       console.error('[OffsetPathPlugin] Error during render:', error);
-      data._target.style.visibility = 'hidden';
     }
   },
 
   kill() {
-    const data = this as any;
-    if (data._target && data._originalPath) {
-      data._target.setAttribute('d', data._originalPath);
-    }
+    release(this);
+    // The element is put back once no tween holds it, so the prop tween can go
+    return true;
   },
 };
@@ -0,0 +1,107 @@
+import type { OffsetAnchor } from './types';
+import type { Pt } from './geometry';
+import { cross } from './geometry';
+import { OffsetPathError } from './errors';
+
+// ---------------------------------------------------------------------------
+// Anchors
+//
+// The point an offset keeps in place. Bounding-box fractions and absolute
+// points are given per axis and blend in tweens; the centroid, a pinned
+// vertex and fit place the whole outline at once.
+// ---------------------------------------------------------------------------
+
+/** Anchors that place the whole outline */
+export type AnchorMode = 'centroid' | 'fit' | { vertex: number };
+
+/** The anchor options of ResolvedOptions */
+export interface AnchorFields {
+  /** Fraction of the bounding box */
+  originX: number | null;
+  originY: number | null;
+  /** Position in SVG units, overriding originX / originY */
+  anchorX: number | null;
+  anchorY: number | null;
+  anchor: AnchorMode | null;
+}
+
+const NO_ANCHOR: AnchorFields = { originX: null, originY: null, anchorX: null, anchorY: null, anchor: null };
+
+// Keyword → axis (null = either) and fraction, as in CSS transform-origin
+const KEYWORDS: Record<string, ['x' | 'y' | null, number]> = {
+  left: ['x', 0], center: [null, 0.5], right: ['x', 1], top: ['y', 0], bottom: ['y', 1],
+};
+
+const LENGTH = /^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)(px|%)?$/;
+
+function invalid(anchor: unknown, reason: string): OffsetPathError {
+  return new OffsetPathError('InvalidOption', `Invalid anchor ${JSON.stringify(anchor)}: ${reason}`);
+}
+
+// One axis of an anchor string: [fraction, null] or [null, SVG units]
+function parseAxis(anchor: string, token: string, axis: 'x' | 'y'): [number | null, number | null] {
+  const keyword = KEYWORDS[token];
+  if (keyword) {
+    if (keyword[0] !== null && keyword[0] !== axis) throw invalid(anchor, `"${token}" is not ${axis === 'x' ? 'a horizontal' : 'a vertical'} position`);
+    return [keyword[1], null];
+  }
+  const match = LENGTH.exec(token);
+  if (!match) throw invalid(anchor, `"${token}" is not a keyword, percentage or length`);
+  const value = parseFloat(match[1]);
+  return match[2] === '%' ? [value / 100, null] : [null, value];
+}
+
+/**
+ * Reads an `anchor` option: `'centroid'`, `'fit'`, `{ vertex }`, a point
+ * `{ x, y }` in SVG units, or a transform-origin style string such as
+ * `'center bottom'`, `'50% 100%'` or `'20 40'`.
+ *
+ * @throws OffsetPathError `InvalidOption` when it is none of these
+ */
+export function parseAnchor(anchor: OffsetAnchor): AnchorFields {
+  if (typeof anchor === 'object' && anchor !== null) {
+    if ('vertex' in anchor) {
+      if (!Number.isInteger(anchor.vertex) || anchor.vertex < 0) throw invalid(anchor, 'vertex must be a non-negative integer');
+      return { ...NO_ANCHOR, anchor: { vertex: anchor.vertex } };
+    }
+    if (!Number.isFinite(anchor.x) || !Number.isFinite(anchor.y)) throw invalid(anchor, 'x and y must be finite numbers');
+    return { ...NO_ANCHOR, anchorX: anchor.x, anchorY: anchor.y };
+  }
+  if (typeof anchor !== 'string') throw invalid(anchor, 'expected a string, a point or a vertex');
+
+  const text = anchor.trim().toLowerCase();
+  if (text === 'centroid' || text === 'fit') return { ...NO_ANCHOR, anchor: text };
+
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  if (tokens.length === 0 || tokens.length > 2) throw invalid(anchor, 'expected one or two positions');
+  // A lone position is x with y centred, unless it names the y axis ("top");
+  // keyword pairs may come either way round ("bottom left")
+  if (tokens.length === 1) {
+    if (KEYWORDS[tokens[0]]?.[0] === 'y') tokens.unshift('center');
+    else tokens.push('center');
+  } else if (KEYWORDS[tokens[0]]?.[0] === 'y' || KEYWORDS[tokens[1]]?.[0] === 'x') {
+    tokens.reverse();
+  }
+  const [originX, anchorX] = parseAxis(anchor, tokens[0], 'x');
+  const [originY, anchorY] = parseAxis(anchor, tokens[1], 'y');
+  return { originX, originY, anchorX, anchorY, anchor: null };
+}
+
+/**
+ * Area centroid of rings wound as prepareRings leaves them (holes against
+ * the outer contours, so they subtract), or null when they have no area.
+ */
+export function centroid(rings: Pt[][]): Pt | null {
+  let area = 0, cx = 0, cy = 0;
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length; i++) {
+      const p = ring[i], q = ring[(i + 1) % ring.length];
+      const c = cross(p, q);
+      area += c;
+      cx += (p[0] + q[0]) * c;
+      cy += (p[1] + q[1]) * c;
+    }
+  }
+  if (Math.abs(area) < 1e-9) return null;
+  return [cx / (3 * area), cy / (3 * area)];
+}
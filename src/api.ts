@@ -0,0 +1,313 @@
+import type { OffsetPathOptions, ContourOptions, PathDataOptions, StrokeStyle, KeyframeOptions } from './types';
+import { EndType } from './types';
+import type { Pt, Polyline, Matrix } from './geometry';
+import { invertMatrix, applyMatrix } from './geometry';
+import type { Subpath, ParseError } from './parser';
+import { parseSvgPath } from './parser';
+import { flattenSubpath, closedPoints } from './flatten';
+import type { PathFormat } from './output';
+import { polylinesToPathData, ringsToPathData } from './output';
+import type { ResolvedOptions, Precision } from './offset';
+import type { Ring } from './flatten';
+import { offsetSvgPath, prepareRings, offsetRings, offsetOutline, anchorPlacement, resolveOptions, resolveFormat, precisionFor, FLATTEN_TOLERANCE } from './offset';
+import { OffsetPathError, pathDataError } from './errors';
+import { resolveStroke, strokeOutlinePathData } from './stroke';
+import { centroid } from './anchor';
+
+// ---------------------------------------------------------------------------
+// Standalone geometry API
+//
+// The same engine the plugin runs, as pure functions on path data strings.
+// Nothing here touches the DOM or GSAP, so it works in Node (build steps,
+// SSR) and in Web Workers.
+// ---------------------------------------------------------------------------
+
+function check(ok: boolean, message: string): void {
+  if (!ok) throw new OffsetPathError('InvalidOption', message);
+}
+
+function checkFormat(options: PathDataOptions): void {
+  const { precision, curveTolerance, pointCount, maxVertices } = options;
+  check(precision === undefined || (Number.isInteger(precision) && precision >= 0 && precision <= 20),
+    `precision must be an integer from 0 to 20, got ${precision}`);
+  check(curveTolerance === undefined || curveTolerance > 0,
+    `curveTolerance must be positive, got ${curveTolerance}`);
+  check(pointCount === undefined || (Number.isInteger(pointCount) && pointCount >= 3),
+    `pointCount must be an integer of at least 3, got ${pointCount}`);
+  check(maxVertices === undefined || (Number.isInteger(maxVertices) && maxVertices >= 3),
+    `maxVertices must be an integer of at least 3, got ${maxVertices}`);
+}
+
+function checkOptions(opts: ContourOptions): void {
+  check(opts.miterLimit === undefined || opts.miterLimit >= 1, `miterLimit must be at least 1, got ${opts.miterLimit}`);
+  check(opts.arcTolerance === undefined || opts.arcTolerance > 0, `arcTolerance must be positive, got ${opts.arcTolerance}`);
+  // 'auto' reads an element's scale, and there is none here
+  check(opts.quality === undefined || (typeof opts.quality === 'number' && opts.quality > 0 && Number.isFinite(opts.quality)),
+    `quality must be a positive number, got ${opts.quality}`);
+  check(!opts.transform || invertMatrix(opts.transform) !== null, 'transform must be invertible');
+  check(!Array.isArray(opts.profile) || (opts.profile.length > 0 && opts.profile.every(Number.isFinite)),
+    'profile keyframes must be a non-empty array of finite numbers');
+  checkFormat(opts);
+}
+
+function checkStroke(stroke: StrokeStyle): void {
+  const { width, miterLimit, dasharray, dashoffset } = stroke;
+  check(width === undefined || (Number.isFinite(width) && width >= 0), `stroke width must be a non-negative number, got ${width}`);
+  check(miterLimit === undefined || miterLimit >= 1, `stroke miterLimit must be at least 1, got ${miterLimit}`);
+  check(!dasharray || dasharray.every((v) => Number.isFinite(v) && v >= 0),
+    'stroke dasharray must be non-negative numbers');
+  check(dashoffset === undefined || Number.isFinite(dashoffset), `stroke dashoffset must be a number, got ${dashoffset}`);
+}
+
+function precisionOf(opts: ContourOptions): Precision {
+  return precisionFor(typeof opts.quality === 'number' ? opts.quality : 1);
+}
+
+// `d`, or with strokeOutline the outline of its stroke (null when the stroke
+// draws nothing). Without an element, the stroke is SVG's default one but
+// for what's set.
+function sourceData(d: string, opts: OffsetPathOptions | KeyframeOptions): string | null {
+  if (!opts.strokeOutline) return d;
+  const stroke = typeof opts.strokeOutline === 'object' ? opts.strokeOutline : {};
+  checkStroke(stroke);
+  return strokeOutlinePathData(d, resolveStroke(stroke), precisionOf(opts)) || null;
+}
+
+/**
+ * Offsets SVG path data, exactly as the plugin does on each frame.
+ * Returns '' when the offset collapses the shape, or strokeOutline outlines a
+ * stroke that draws nothing.
+ *
+ * @throws OffsetPathError `EmptyPath` when `d` has nothing to offset,
+ *   `InvalidPathData` when it can't be parsed (with `strict`, when any of it
+ *   can't), `InvalidOption` for bad options
+ */
+export function offsetPathData(d: string, options: OffsetPathOptions | number): string {
+  const opts: OffsetPathOptions = typeof options === 'number' ? { offset: options } : options;
+  check(Number.isFinite(opts.offset), `Offset amount is NaN or infinite: ${opts.offset}`);
+  checkOptions(opts);
+  if (opts.strict) checkPathData(d);
+  const source = sourceData(d, opts);
+  if (source === null) return '';
+  return offsetSvgPath(source, opts.offset, resolveOptions(opts), resolveFormat(opts), opts.transform ?? null, precisionOf(opts));
+}
+
+// Safety net for contours that never collapse (e.g. a profile of zeros)
+const MAX_CONTOURS = 1000;
+
+/**
+ * Generates the family of contours offset by 1×, 2×, … `step` from `d`:
+ * insets until the shape collapses, or `count` of them. With only a count,
+ * insets are spread evenly between the outline and the point of collapse.
+ *
+ * @throws OffsetPathError as offsetPathData; `InvalidOption` also when there
+ *   is neither a step nor a count, or a count is needed and missing
+ */
+export function offsetContours(d: string, options: ContourOptions): string[] {
+  const { step, count } = options;
+  check(step === undefined || (Number.isFinite(step) && step !== 0), `step must be a non-zero number, got ${step}`);
+  check(count === undefined || (Number.isInteger(count) && count >= 0), `count must be a non-negative integer, got ${count}`);
+  checkOptions(options);
+  if (options.strict) checkPathData(d);
+
+  const resolved = resolveOptions({ ...options, offset: 0 });
+  // Only filled polygons shrink to nothing; outlines just keep growing
+  const collapses = resolved.endType === EndType.Polygon;
+  check(step !== undefined || count !== undefined, 'offsetContours needs a step or a count');
+  check(count !== undefined || (step! < 0 && collapses), 'Contours that never collapse need a count');
+  check(step !== undefined || collapses, 'Spreading contours evenly needs EndType.Polygon');
+
+  const format = resolveFormat(options);
+  const rings = prepareRings(d, precisionOf(options), format.maxVertices);
+  const transform = options.transform ?? null;
+  const spacing = step ?? -collapseDepth(rings, resolved, transform) / (count! + 1);
+
+  const contours: string[] = [];
+  const last = Math.min(count ?? MAX_CONTOURS, MAX_CONTOURS);
+  for (let k = 1; k <= last; k++) {
+    const contour = offsetRings(rings, spacing * k, resolved, format, transform);
+    if (!contour) break;
+    contours.push(contour);
+  }
+  return contours;
+}
+
+// Inset at which the shape collapses, found by bisection
+function collapseDepth(rings: Ring[], options: ResolvedOptions, transform: Matrix | null): number {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const { points } of rings) {
+    for (const [x, y] of points) {
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    }
+  }
+  const survives = (depth: number): boolean => offsetRings(rings, -depth, options, undefined, transform) !== '';
+
+  let lo = 0, hi = Math.max(maxX - minX, maxY - minY, 1) / rings[0].scale / 2;
+  while (survives(hi) && hi < 1e6) hi *= 2;
+  while (hi - lo > 1e-3) {
+    const mid = (lo + hi) / 2;
+    if (survives(mid)) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Parses SVG path data into subpaths of absolute segments. Like browsers,
+ * parsing stops at the first syntax error and keeps what came before it.
+ *
+ * @throws OffsetPathError `EmptyPath` for empty data, `InvalidPathData` when
+ *   not even the first command parses
+ */
+export function parsePath(d: string): Subpath[] {
+  const { subpaths, error } = parseSvgPath(d);
+  if (subpaths.length > 0) return subpaths;
+  throw pathDataError(error ?? emptyPath());
+}
+
+function emptyPath(): ParseError {
+  return { kind: 'EmptyPath', message: 'Path data is empty', position: 0, command: null };
+}
+
+/**
+ * Checks path data without drawing it: null when all of it parses, else
+ * the first error, with its kind, position in `d` and the command being read.
+ * Data without a single command is an `EmptyPath` error.
+ */
+export function validatePathData(d: string): ParseError | null {
+  const { subpaths, error } = parseSvgPath(d);
+  return error ?? (subpaths.length === 0 ? emptyPath() : null);
+}
+
+/**
+ * Throws the first error validatePathData finds.
+ *
+ * @throws OffsetPathError `InvalidPathData` or `EmptyPath`, with the
+ *   ParseError as `parseError`
+ */
+export function checkPathData(d: string): void {
+  const error = validatePathData(d);
+  if (error) throw pathDataError(error);
+}
+
+/**
+ * Flattens parsed subpaths to polylines whose curves stay within `tolerance`
+ * of the originals. Accepts path data directly as a shorthand for parsePath.
+ */
+export function flatten(path: Subpath[] | string, tolerance: number = FLATTEN_TOLERANCE): Polyline[] {
+  check(tolerance > 0, `tolerance must be positive, got ${tolerance}`);
+  const subpaths = typeof path === 'string' ? parsePath(path) : path;
+  return subpaths.map((sp) => ({ points: flattenSubpath(sp, tolerance), closed: sp.closed }));
+}
+
+/** Writes polylines back to SVG path data. */
+export function toPathData(lines: Polyline[], options: PathDataOptions = {}): string {
+  checkFormat(options);
+  return polylinesToPathData(lines, resolveFormat(options));
+}
+
+// ---------------------------------------------------------------------------
+// Static snapshots
+//
+// Offsets sampled ahead of time for pages that can't run GSAP (email, SVG
+// sprites). Every frame has the same subpaths with the same vertex count,
+// written with the same commands, so browsers can interpolate between them.
+// ---------------------------------------------------------------------------
+
+const DEFAULT_FRAMES = 11;
+const MIN_KEYFRAME_POINTS = 32;
+
+/**
+ * Samples the offset of `d` from `from` to `to` at `frames` evenly spaced
+ * times, through `ease`. Every frame has as many subpaths as the busiest one,
+ * each with `pointCount` vertices: a subpath missing from a frame (all of
+ * them, once the shape has collapsed) is drawn as a point at the centre of
+ * the same subpath in the nearest frame that has it. Frames are '' only when
+ * the shape is collapsed in every one of them.
+ *
+ * @throws OffsetPathError as offsetPathData
+ */
+export function offsetKeyframes(d: string, options: KeyframeOptions): string[] {
+  const { from = 0, to, frames = DEFAULT_FRAMES, ease } = options;
+  check(Number.isFinite(from) && Number.isFinite(to), `from and to must be finite numbers, got ${from} and ${to}`);
+  check(Number.isInteger(frames) && frames >= 2, `frames must be an integer of at least 2, got ${frames}`);
+  check(ease === undefined || typeof ease === 'function', 'ease must be a function of time');
+  checkOptions(options);
+  if (options.strict) checkPathData(d);
+
+  const source = sourceData(d, options);
+  if (source === null) return Array.from({ length: frames }, () => '');
+  const rings = prepareRings(source, precisionOf(options));
+  const resolved = resolveOptions({ ...options, offset: 0 });
+  if (resolved.endType === EndType.Polygon && rings.every((ring) => closedPoints(ring.points).length < 3)) {
+    throw new OffsetPathError('EmptyPath', 'Path data has no subpath with an area to offset');
+  }
+
+  const pointCount = options.pointCount ?? Math.max(MIN_KEYFRAME_POINTS, ...rings.map((ring) => ring.points.length));
+  const format: PathFormat = { ...resolveFormat(options), compact: false, curveTolerance: null, maxVertices: null, pointCount };
+  const transform = options.transform ?? null;
+
+  // Each frame's rings, placed by the anchor
+  const outlines: Pt[][][] = [];
+  for (let i = 0; i < frames; i++) {
+    const t = i / (frames - 1);
+    const amount = from + (to - from) * (ease ? ease(t) : t);
+    check(Number.isFinite(amount), `ease gave no number at ${t}`);
+    const outline = offsetOutline(rings, amount, resolved, format, transform);
+    const placement = outline && anchorPlacement(rings, outline.rings, resolved);
+    outlines.push(!outline ? [] : placement ? outline.rings.map((ring) => ring.map((p) => applyMatrix(placement, p))) : outline.rings);
+  }
+
+  const slots = Math.max(...outlines.map((frame) => frame.length));
+  if (slots === 0) return outlines.map(() => '');
+  for (let k = 0; k < slots; k++) {
+    const having = outlines.flatMap((frame, i) => (frame.length > k ? [i] : []));
+    outlines.forEach((frame, i) => {
+      if (frame.length > k) return;
+      const nearest = having.reduce((best, j) => (Math.abs(j - i) < Math.abs(best - i) ? j : best));
+      const ring = outlines[nearest][k];
+      frame.push([centroid([ring]) ?? ring[0]]);
+    });
+  }
+  return outlines.map((frame) => ringsToPathData(frame, rings[0].scale, format, rings[0].origin));
+}
+
+// Times of evenly spaced frames, from 0 to 1
+function keyTimes(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i / (count - 1));
+}
+
+function fraction(v: number, digits: number): string {
+  return String(Number(v.toFixed(digits)));
+}
+
+/**
+ * A CSS @keyframes rule named `name` that animates `d` through the frames,
+ * spaced evenly: run it with `animation` on a <path> drawn with frames[0].
+ */
+export function toCssKeyframes(frames: string[], name: string): string {
+  check(frames.length >= 2, `Keyframes need at least two frames, got ${frames.length}`);
+  check(/^-?[_a-zA-Z][\w-]*$/.test(name), `name must be a CSS identifier, got ${name}`);
+  const times = keyTimes(frames.length);
+  const steps = frames.map((d, i) => `  ${fraction(times[i] * 100, 3)}% { d: ${d ? `path("${d}")` : 'none'}; }`);
+  return `@keyframes ${name} {\n${steps.join('\n')}\n}`;
+}
+
+/**
+ * An SVG <animate> element that animates `d` through the frames, spaced
+ * evenly, for a <path> drawn with frames[0]. `attributes` are added to it,
+ * such as `{ dur: "2s", repeatCount: "indefinite" }`; `dur` is 1s unless set.
+ */
+export function toSmilAnimate(frames: string[], attributes: Record<string, string | number> = {}): string {
+  check(frames.length >= 2, `Keyframes need at least two frames, got ${frames.length}`);
+  const all: Record<string, string | number> = {
+    attributeName: 'd',
+    dur: '1s',
+    ...attributes,
+    values: frames.join(';'),
+    keyTimes: keyTimes(frames.length).map((t) => fraction(t, 4)).join(';'),
+  };
+  const escape = (v: string): string => v.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  return `<animate ${Object.entries(all).map(([key, v]) => `${key}="${escape(String(v))}"`).join(' ')}/>`;
+}
@@ -0,0 +1,57 @@
+// ---------------------------------------------------------------------------
+// Per-tween memo of rendered frames
+//
+// Scrubbed and yoyo timelines revisit the same offsets over and over. With a
+// cache step the offset is quantised, so those frames hit the memo instead of
+// re-running the offset and union passes. Entries are evicted least recently
+// used first once the memo grows past its memory budget.
+// ---------------------------------------------------------------------------
+
+export interface FrameCache {
+  entries: Map<string, string>;
+  /** Estimated memory held by the entries, in bytes */
+  bytes: number;
+  maxBytes: number;
+}
+
+// UTF-16 strings plus a rough allowance for the Map entry itself
+function entrySize(key: string, value: string): number {
+  return (key.length + value.length) * 2 + 64;
+}
+
+export function createFrameCache(maxKilobytes: number): FrameCache {
+  return { entries: new Map(), bytes: 0, maxBytes: Math.max(0, maxKilobytes) * 1024 };
+}
+
+export function cacheGet(cache: FrameCache, key: string): string | undefined {
+  const value = cache.entries.get(key);
+  if (value !== undefined) {
+    // Re-insert to mark as most recently used
+    cache.entries.delete(key);
+    cache.entries.set(key, value);
+  }
+  return value;
+}
+
+export function cacheSet(cache: FrameCache, key: string, value: string): void {
+  const size = entrySize(key, value);
+  if (size > cache.maxBytes) return;
+  const existing = cache.entries.get(key);
+  if (existing !== undefined) {
+    cache.entries.delete(key);
+    cache.bytes -= entrySize(key, existing);
+  }
+  // Map iteration order is insertion order, so the first key is the oldest
+  for (const [oldKey, oldValue] of cache.entries) {
+    if (cache.bytes + size <= cache.maxBytes) break;
+    cache.entries.delete(oldKey);
+    cache.bytes -= entrySize(oldKey, oldValue);
+  }
+  cache.entries.set(key, value);
+  cache.bytes += size;
+}
+
+export function cacheClear(cache: FrameCache): void {
+  cache.entries.clear();
+  cache.bytes = 0;
+}
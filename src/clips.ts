@@ -0,0 +1,112 @@
+import type { Matrix } from './geometry';
+import { multiplyMatrix } from './geometry';
+
+// ---------------------------------------------------------------------------
+// Clip paths and masks
+//
+// An element clipped or masked by SVG geometry (`clip-path: url(#x)`,
+// `mask: url(#x)`) animates the shapes inside the referenced <clipPath> or
+// <mask>, which the plugin treats as a group. Elements clipped by a CSS
+// `clip-path: path(...)` animate that path, written back to their inline style.
+// ---------------------------------------------------------------------------
+
+// Computed styles resolve the URL against the document, so the fragment
+// may follow a full address
+const URL_REFERENCE = /url\(\s*(['"]?)[^#'")]*#([^'")]+)\1\s*\)/;
+const CSS_PATH = /^path\(\s*(?:(nonzero|evenodd)\s*,\s*)?(['"])([\s\S]*)\2\s*\)$/;
+
+function computedStyle(el: Element): CSSStyleDeclaration | null {
+  const view = el.ownerDocument?.defaultView;
+  return view ? view.getComputedStyle(el) : null;
+}
+
+/** True for elements whose content is geometry referenced from elsewhere. */
+export function isClipContainer(el: unknown): el is SVGClipPathElement | SVGMaskElement {
+  return (typeof SVGClipPathElement !== 'undefined' && el instanceof SVGClipPathElement) ||
+    (typeof SVGMaskElement !== 'undefined' && el instanceof SVGMaskElement);
+}
+
+/**
+ * The <clipPath> or <mask> that clips or masks `el`, from its computed style
+ * or its presentation attributes; a clip path comes before a mask.
+ */
+export function clipReference(el: Element): SVGClipPathElement | SVGMaskElement | null {
+  const style = computedStyle(el);
+  const values = [style?.clipPath, el.getAttribute('clip-path'), style?.maskImage, el.getAttribute('mask')];
+  for (const value of values) {
+    const id = value && URL_REFERENCE.exec(value)?.[2];
+    const referenced = id ? el.ownerDocument?.getElementById(decodeURIComponent(id)) : null;
+    if (isClipContainer(referenced)) return referenced;
+  }
+  return null;
+}
+
+/**
+ * Transform from the content of a clip path or mask to the user space of
+ * `user`, the element it applies to: the clip path's own transform, inside
+ * the bounding box for objectBoundingBox units. Null when there is neither.
+ */
+export function contentTransform(container: SVGClipPathElement | SVGMaskElement, user: Element): Matrix | null {
+  const isClip = container instanceof SVGClipPathElement;
+  const own: Matrix | null = isClip ? container.transform?.baseVal.consolidate?.()?.matrix ?? null : null;
+  if (container.getAttribute(isClip ? 'clipPathUnits' : 'maskContentUnits') !== 'objectBoundingBox') return own;
+
+  // SVG elements have a geometry box; HTML ones their border box
+  const box = user instanceof SVGGraphicsElement ? user.getBBox()
+    : user instanceof HTMLElement ? { x: 0, y: 0, width: user.offsetWidth, height: user.offsetHeight }
+    : { x: 0, y: 0, width: 0, height: 0 };
+  const units: Matrix = { a: box.width, b: 0, c: 0, d: box.height, e: box.x, f: box.y };
+  return own ? multiplyMatrix(units, own) : units;
+}
+
+// ---------------------------------------------------------------------------
+// CSS clip-path: path()
+// ---------------------------------------------------------------------------
+
+export interface CssClipBinding {
+  el: HTMLElement | SVGElement;
+  /** The inline clip-path before the first tween, restored on kill */
+  inline: string;
+  /** The path clipped to before the first tween */
+  pathData: string;
+  fillRule: 'nonzero' | 'evenodd' | null;
+}
+
+// Bindings by element, kept until the element is restored
+const bindings = new WeakMap<Element, CssClipBinding>();
+
+/**
+ * Binds an element clipped by `clip-path: path(...)`. Tweens on the same
+ * element share the binding, and so the original path, until it is restored.
+ * Returns null when the element has no such clip.
+ */
+export function bindCssClip(el: HTMLElement | SVGElement): CssClipBinding | null {
+  const existing = bindings.get(el);
+  if (existing) return existing;
+
+  const value = computedStyle(el)?.clipPath ?? el.style.clipPath;
+  const match = value ? CSS_PATH.exec(value.trim()) : null;
+  if (!match) return null;
+
+  const binding: CssClipBinding = {
+    el,
+    inline: el.style.clipPath,
+    // Quotes inside the string are escaped in serialised CSS
+    pathData: match[3].replace(/\\(.)/g, '$1'),
+    fillRule: (match[1] as CssClipBinding['fillRule']) ?? null,
+  };
+  bindings.set(el, binding);
+  return binding;
+}
+
+/** Clips to `d`, or to nothing once the offset has collapsed the shape ('') */
+export function writeCssClip(binding: CssClipBinding, d: string): void {
+  const rule = binding.fillRule ? `${binding.fillRule}, ` : '';
+  binding.el.style.clipPath = `path(${rule}"${d || 'M0 0'}")`;
+}
+
+/** Puts the element's inline clip-path back as it was before the first tween. */
+export function restoreCssClip(binding: CssClipBinding): void {
+  binding.el.style.clipPath = binding.inline;
+  bindings.delete(binding.el);
+}
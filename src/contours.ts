@@ -0,0 +1,61 @@
+import type { ResolvedOptions } from './offset';
+import { createPathLike } from './shapes';
+
+// ---------------------------------------------------------------------------
+// Contour rings (plugin contour mode)
+//
+// The target is left as it is and every ring of the family is drawn by a
+// sibling <path> carrying the target's presentation attributes. The rings are
+// kept on the target between tweens, so a follow-up tween animates the same
+// elements, and are removed when the tween is killed.
+// ---------------------------------------------------------------------------
+
+export interface ContourSet {
+  /** Ring elements, nearest the target first */
+  elements: SVGPathElement[];
+  /** Offset last rendered on each ring */
+  offsets: number[];
+  /** Options last rendered, where a follow-up tween starts */
+  options: ResolvedOptions | null;
+}
+
+// Rings by target, kept between tweens until they are removed
+const sets = new WeakMap<Element, ContourSet>();
+
+/** The rings last drawn for `target`, if any. */
+export function contourSet(target: Element): ContourSet | undefined {
+  return sets.get(target);
+}
+
+/**
+ * Grows or shrinks the rings around `target` to `count`, drawn next to
+ * `anchor` (the target, or the proxy standing in for it). Outset rings stack
+ * behind the element they surround and inset rings in front of it, so larger
+ * rings never cover smaller ones.
+ */
+export function syncContours(target: Element, anchor: SVGElement, count: number, outward: boolean): ContourSet {
+  const set: ContourSet = sets.get(target) ?? { elements: [], offsets: [], options: null };
+  while (set.elements.length > count) {
+    set.elements.pop()!.remove();
+    set.offsets.pop();
+  }
+  while (set.elements.length < count) {
+    const ring = createPathLike(anchor, ['id', 'd']);
+    ring.setAttribute('data-offset-contour', String(set.elements.length + 1));
+    const prev = set.elements[set.elements.length - 1] ?? anchor;
+    if (outward) prev.before(ring);
+    else prev.after(ring);
+    set.elements.push(ring);
+    set.offsets.push(0);
+  }
+  sets.set(target, set);
+  return set;
+}
+
+/** Removes every ring drawn for `target`. */
+export function removeContours(target: Element): void {
+  const set = sets.get(target);
+  if (!set) return;
+  for (const el of set.elements) el.remove();
+  sets.delete(target);
+}
@@ -0,0 +1,79 @@
+import type { Pt } from './geometry';
+import type { Ring } from './flatten';
+import type { ResolvedOptions } from './offset';
+
+// ---------------------------------------------------------------------------
+// Offset engines
+//
+// Parsing, flattening, transforms, anchoring and output stay in TypeScript;
+// an engine only offsets the prepared rings and merges the result. The
+// built-in engine is the port in offset.ts / union.ts. The Clipper2 build in
+// wasm/clipper-offset can replace it for higher accuracy.
+// ---------------------------------------------------------------------------
+
+export interface OffsetEngine {
+  /** Shown in warnings and errors */
+  readonly name: string;
+  /**
+   * Offsets rings in scaled integer coordinates (outer contours CW, holes
+   * CCW, as prepareRings leaves them) by `delta` scaled units. Returns the
+   * merged outlines in the same coordinates, or [] once the shape collapses.
+   */
+  offsetRings(rings: Ring[], delta: number, options: ResolvedOptions): Pt[][];
+  /** False for options the engine can't honour; the built-in engine draws those frames */
+  supports?(options: ResolvedOptions): boolean;
+}
+
+let active: OffsetEngine | null = null;
+
+/** Replaces the built-in engine for every offset drawn from now on (null restores it) */
+export function setEngine(engine: OffsetEngine | null): void {
+  active = engine;
+}
+
+/** The engine to offset with these options, or null for the built-in one */
+export function engineFor(options: ResolvedOptions): OffsetEngine | null {
+  return active && (active.supports?.(options) ?? true) ? active : null;
+}
+
+// ---------------------------------------------------------------------------
+// Clipper2 (WASM)
+// ---------------------------------------------------------------------------
+
+/** The part of the wasm-bindgen module built from wasm/clipper-offset that the engine calls */
+export interface ClipperOffsetModule {
+  /** Paths64 in and out, each path flattened to [x0, y0, x1, y1, …] */
+  offset_paths(
+    paths: number[][],
+    closed: Uint8Array,
+    delta: number,
+    joinType: number,
+    endType: number,
+    miterLimit: number,
+    arcTolerance: number,
+  ): number[][];
+}
+
+/**
+ * Wraps an initialised build of wasm/clipper-offset as an engine for
+ * OffsetPathPlugin.useEngine. Clipper2 has no rounded miters or offset
+ * profiles, so frames that use them stay on the built-in engine.
+ */
+export function wasmEngine(wasm: ClipperOffsetModule): OffsetEngine {
+  return {
+    name: 'clipper2-wasm',
+    supports: (options) => options.roundness === null && options.profile === null,
+    offsetRings(rings, delta, options) {
+      const paths = rings.map((ring) => ring.points.flat());
+      const closed = Uint8Array.from(rings, (ring) => (ring.closed ? 1 : 0));
+      const result = wasm.offset_paths(
+        paths, closed, delta, options.joinType, options.endType, options.miterLimit, options.arcTolerance,
+      );
+      return result.map((flat) => {
+        const points: Pt[] = [];
+        for (let i = 0; i + 1 < flat.length; i += 2) points.push([flat[i], flat[i + 1]]);
+        return points;
+      });
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import type { ParseError } from './parser';
+
+/**
+ * What went wrong (mirrors PathError in the Rust engine):
+ * - `EmptyPath`: the path data draws nothing that can be offset
+ * - `InvalidPathData`: the path data could not be parsed (at all, or in
+ *   strict mode anywhere)
+ * - `InvalidOption`: an option is out of range (e.g. a NaN offset)
+ * - `InvalidTarget`: a strict tween's target can't be offset (e.g. `<text>`)
+ */
+export type OffsetPathErrorCode = 'EmptyPath' | 'InvalidPathData' | 'InvalidOption' | 'InvalidTarget';
+
+/** Error thrown by the standalone geometry API, and by strict tweens. */
+export class OffsetPathError extends Error {
+  readonly code: OffsetPathErrorCode;
+  /** For `InvalidPathData` and `EmptyPath`: where and how parsing failed, when it did */
+  readonly parseError: ParseError | null;
+
+  constructor(code: OffsetPathErrorCode, message: string, parseError: ParseError | null = null) {
+    super(message);
+    this.name = 'OffsetPathError';
+    this.code = code;
+    this.parseError = parseError;
+  }
+}
+
+/** The OffsetPathError for a parse error, with its position in the message. */
+export function pathDataError(error: ParseError): OffsetPathError {
+  const code = error.kind === 'EmptyPath' ? 'EmptyPath' : 'InvalidPathData';
+  return new OffsetPathError(code, `${error.message} at position ${error.position}`, error);
+}
@@ -0,0 +1,176 @@
+import type { Pt, Polyline } from './geometry';
+import { windingSum } from './geometry';
+import type { Subpath } from './parser';
+
+// ---------------------------------------------------------------------------
+// Bezier flattening via De Casteljau (port of lyon flattened iterator)
+// ---------------------------------------------------------------------------
+
+function flattenCubic(p0: Pt, p1: Pt, p2: Pt, p3: Pt, tol: number, out: Pt[]): void {
+  // Flatness test: max deviation of control polygon from chord
+  const ux = 3 * p1[0] - 2 * p0[0] - p3[0];
+  const uy = 3 * p1[1] - 2 * p0[1] - p3[1];
+  const vx = 3 * p2[0] - 2 * p3[0] - p0[0];
+  const vy = 3 * p2[1] - 2 * p3[1] - p0[1];
+  if (Math.max(ux * ux + uy * uy, vx * vx + vy * vy) <= 16 * tol * tol) {
+    out.push(p3);
+    return;
+  }
+  // Midpoint subdivision
+  const m01: Pt = [(p0[0] + p1[0]) / 2, (p0[1] + p1[1]) / 2];
+  const m12: Pt = [(p1[0] + p2[0]) / 2, (p1[1] + p2[1]) / 2];
+  const m23: Pt = [(p2[0] + p3[0]) / 2, (p2[1] + p3[1]) / 2];
+  const m012: Pt = [(m01[0] + m12[0]) / 2, (m01[1] + m12[1]) / 2];
+  const m123: Pt = [(m12[0] + m23[0]) / 2, (m12[1] + m23[1]) / 2];
+  const mid: Pt  = [(m012[0] + m123[0]) / 2, (m012[1] + m123[1]) / 2];
+  flattenCubic(p0, m01, m012, mid, tol, out);
+  flattenCubic(mid, m123, m23, p3, tol, out);
+}
+
+function flattenQuadratic(p0: Pt, p1: Pt, p2: Pt, tol: number, out: Pt[]): void {
+  // Elevate quadratic to cubic then flatten
+  const c1: Pt = [p0[0] + (2 / 3) * (p1[0] - p0[0]), p0[1] + (2 / 3) * (p1[1] - p0[1])];
+  const c2: Pt = [p2[0] + (2 / 3) * (p1[0] - p2[0]), p2[1] + (2 / 3) * (p1[1] - p2[1])];
+  flattenCubic(p0, c1, c2, p2, tol, out);
+}
+
+// ---------------------------------------------------------------------------
+// Subpaths → integer polylines (scale + winding normalisation)
+// Returns null if invalid (nothing left to offset)
+// ---------------------------------------------------------------------------
+
+// Largest scaled coordinate: products of two stay within the 2^53 integers
+// a double holds exactly, which the union pass relies on
+export const MAX_SCALED = 2 ** 26;
+
+/** A prepared subpath */
+export interface Ring extends Polyline {
+  /** Points run against the subpath's own direction (winding normalisation) */
+  reversed: boolean;
+  /** Ends of the subpath's segments, scaled, in the order the path data draws them */
+  vertices?: Pt[];
+  /** Scaled units per SVG unit */
+  scale: number;
+  /** Scaled position the points are relative to: a point's SVG coordinates are (p + origin) / scale */
+  origin: Pt;
+}
+
+export function flattenSubpath(sp: Subpath, tol: number): Pt[] {
+  const floatPts: Pt[] = [];
+
+  let cur: Pt = [0, 0];
+  for (const seg of sp.segs) {
+    if (seg.type === 'M') {
+      cur = seg.pts[0];
+      floatPts.push(cur);
+    } else if (seg.type === 'L') {
+      cur = seg.pts[0];
+      floatPts.push(cur);
+    } else if (seg.type === 'C') {
+      flattenCubic(cur, seg.pts[0], seg.pts[1], seg.pts[2], tol, floatPts);
+      cur = seg.pts[2];
+    } else if (seg.type === 'Q') {
+      flattenQuadratic(cur, seg.pts[0], seg.pts[1], tol, floatPts);
+      cur = seg.pts[1];
+    }
+  }
+
+  return floatPts;
+}
+
+// Even-odd ray cast
+function pointInRing(p: Pt, ring: Pt[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > p[1]) !== (yj > p[1]) &&
+        p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Flattens subpaths within `tol` and scales them by `sc` to integers. Paths
+ * that would exceed MAX_SCALED are taken relative to the centre of their box
+ * (`origin`), so that distance from the SVG origin costs no precision, and
+ * only paths larger than the grid itself are scaled by less.
+ */
+export function svgToPoints(subpaths: Subpath[], sc: number, tol: number): Ring[] | null {
+  if (subpaths.length === 0) return null;
+
+  const flattened = subpaths.map((sp) => flattenSubpath(sp, tol));
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const pts of flattened) {
+    for (const [x, y] of pts) {
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    }
+  }
+  if (minX > maxX) return null;
+  const far = Math.max(-minX, maxX, -minY, maxY) * sc > MAX_SCALED;
+  let origin: Pt = far ? [Math.round(((minX + maxX) / 2) * sc), Math.round(((minY + maxY) / 2) * sc)] : [0, 0];
+  const extent = Math.max(maxX * sc - origin[0], origin[0] - minX * sc, maxY * sc - origin[1], origin[1] - minY * sc);
+  if (extent > MAX_SCALED) {
+    // Larger than the grid: scaled down about the same point
+    const shrink = MAX_SCALED / extent;
+    sc *= shrink;
+    origin = [Math.round(origin[0] * shrink), Math.round(origin[1] * shrink)];
+  }
+  const [ox, oy] = origin;
+
+  // Scale every subpath to integers, dropping degenerate ones. Open subpaths
+  // keep all their points: they may be stroked with caps, where a single
+  // point still draws a dot and a last point back on the start is an edge.
+  const lines: Ring[] = [];
+  subpaths.forEach((sp, k) => {
+    const points: Pt[] = [];
+    for (const [x, y] of flattened[k]) {
+      const p: Pt = [Math.round(x * sc - ox), Math.round(y * sc - oy)];
+      const last = points[points.length - 1];
+      if (!last || last[0] !== p[0] || last[1] !== p[1]) points.push(p);
+    }
+    const vertices = sp.segs.map((seg): Pt => {
+      const [x, y] = seg.pts[seg.pts.length - 1];
+      return [Math.round(x * sc - ox), Math.round(y * sc - oy)];
+    });
+    if (sp.closed) {
+      // Explicit closing point (e.g. the end of a full-circle arc) duplicates the start
+      const ring = closedPoints(points);
+      if (ring.length >= 3) lines.push({ points: ring, closed: true, reversed: false, vertices, scale: sc, origin });
+    } else if (points.length >= 2 || sp.segs.length > 1) {
+      lines.push({ points, closed: false, reversed: false, vertices, scale: sc, origin });
+    }
+  });
+  if (lines.length === 0) return null;
+
+  // Winding normalisation by containment depth. A ring nested inside an odd
+  // number of other rings is a hole: it must run CCW so that perpNormal points
+  // into the hole and a positive offset shrinks it. All other rings run CW
+  // (standard SVG convention) so the perpNormal points outward. Open subpaths
+  // take part too, since EndType.Polygon fills them as if closed.
+  const rings = lines.filter((line) => line.points.length >= 3);
+  for (const ring of rings) {
+    let depth = 0;
+    for (const other of rings) {
+      if (other !== ring && pointInRing(ring.points[0], other.points)) depth++;
+    }
+    const isHole = depth % 2 === 1;
+    const area = windingSum(ring.points);
+    if (isHole ? area < 0 : area > 0) {
+      ring.points.reverse();
+      ring.reversed = true;
+    }
+  }
+
+  return lines;
+}
+
+/** Points of a polyline as a ring, without a last point repeating the first */
+export function closedPoints(points: Pt[]): Pt[] {
+  let n = points.length;
+  while (n > 1 && points[0][0] === points[n - 1][0] && points[0][1] === points[n - 1][1]) n--;
+  return n === points.length ? points : points.slice(0, n);
+}
@@ -0,0 +1,83 @@
+// ---------------------------------------------------------------------------
+// 2D point helpers
+// ---------------------------------------------------------------------------
+export type Pt = [number, number];
+
+/** Points of one flattened subpath; closed lines end with an implicit Z */
+export interface Polyline {
+  points: Pt[];
+  closed: boolean;
+}
+
+export function sub(a: Pt, b: Pt): Pt { return [a[0] - b[0], a[1] - b[1]]; }
+export function add(a: Pt, b: Pt): Pt { return [a[0] + b[0], a[1] + b[1]]; }
+export function scale2(a: Pt, s: number): Pt { return [a[0] * s, a[1] * s]; }
+export function dot(a: Pt, b: Pt): number { return a[0] * b[0] + a[1] * b[1]; }
+export function cross(a: Pt, b: Pt): number { return a[0] * b[1] - a[1] * b[0]; }
+export function len(a: Pt): number { return Math.sqrt(a[0] * a[0] + a[1] * a[1]); }
+export function norm(a: Pt): Pt {
+  const l = len(a);
+  return l > 1e-10 ? [a[0] / l, a[1] / l] : [0, 0];
+}
+// Outward normal for SVG coordinates (Y-down, CW winding convention)
+export function perpNormal(e: Pt): Pt { return [e[1], -e[0]]; }
+
+// Shoelace sum in the form used by the Rust port. In Y-down SVG coordinates,
+// CW rings have a negative sum; CCW rings have a positive one.
+export function windingSum(pts: Pt[]): number {
+  let area = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const j = (i + 1) % pts.length;
+    area += (pts[j][0] - pts[i][0]) * (pts[j][1] + pts[i][1]);
+  }
+  return area;
+}
+
+// ---------------------------------------------------------------------------
+// Affine transforms
+// ---------------------------------------------------------------------------
+
+/** 2D affine transform, laid out like DOMMatrix / SVGMatrix */
+export interface Matrix { a: number; b: number; c: number; d: number; e: number; f: number; }
+
+export function applyMatrix(m: Matrix, p: Pt): Pt {
+  return [m.a * p[0] + m.c * p[1] + m.e, m.b * p[0] + m.d * p[1] + m.f];
+}
+
+/** m × n: the transform that applies n first, then m */
+export function multiplyMatrix(m: Matrix, n: Matrix): Matrix {
+  return {
+    a: m.a * n.a + m.c * n.b,
+    b: m.b * n.a + m.d * n.b,
+    c: m.a * n.c + m.c * n.d,
+    d: m.b * n.c + m.d * n.d,
+    e: m.a * n.e + m.c * n.f + m.e,
+    f: m.b * n.e + m.d * n.f + m.f,
+  };
+}
+
+/** Inverse transform, or null when m collapses the plane */
+export function invertMatrix(m: Matrix): Matrix | null {
+  const det = m.a * m.d - m.b * m.c;
+  if (!isFinite(det) || Math.abs(det) < 1e-12) return null;
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det,
+  };
+}
+
+/** True when m only translates, rotates, reflects and scales uniformly */
+export function isSimilarity(m: Matrix): boolean {
+  const eps = 1e-9 * Math.max(Math.abs(m.a), Math.abs(m.b), Math.abs(m.c), Math.abs(m.d));
+  return (Math.abs(m.a - m.d) <= eps && Math.abs(m.b + m.c) <= eps) ||
+         (Math.abs(m.a + m.d) <= eps && Math.abs(m.b - m.c) <= eps);
+}
+
+export function isIdentity(m: Matrix): boolean {
+  return m.a === 1 && m.b === 0 && m.c === 0 && m.d === 1 && m.e === 0 && m.f === 0;
+}
+
@@ -0,0 +1,189 @@
+import type { Pt, Matrix } from './geometry';
+import { applyMatrix, invertMatrix, multiplyMatrix } from './geometry';
+import type { Ring } from './flatten';
+import type { OffsetOutline, ResolvedOptions } from './offset';
+import { anchorPlacement, transformRings, scaledMatrix, SCALE } from './offset';
+import type { ShapeBinding, ShapeElement } from './shapes';
+import { isShapeElement, bindShape, outputElement, restoreShape, createPathLike } from './shapes';
+
+// ---------------------------------------------------------------------------
+// Groups (<g> targets)
+//
+// Every path and basic shape in the group is offset by the same amount,
+// measured in the group's user units and anchored on the group's combined
+// bounding box, so the pieces of a mark grow together. In merge mode a
+// <path> added to the group draws the union of the offset pieces instead,
+// so pieces that touch fuse into one outline.
+//
+// <clipPath> and <mask> elements are bound the same way, and elements
+// sharing a clip path share its binding.
+// ---------------------------------------------------------------------------
+
+const SHAPE_SELECTOR = 'path, circle, ellipse, rect, polygon, polyline, line';
+// Containers whose content is never drawn in place
+const UNRENDERED_SELECTOR = 'defs, clipPath, mask, marker, pattern, symbol';
+
+const IDENTITY: Matrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+export interface GroupMember {
+  el: SVGPathElement | ShapeElement;
+  /** Basic shapes are drawn by a <path> proxy; null for paths */
+  shape: ShapeBinding | null;
+  /** The original geometry as path data */
+  pathData: string;
+  /** From the member's user space to the group's */
+  toGroup: Matrix;
+}
+
+/** Elements whose content is bound as a group */
+export type GroupElement = SVGGElement | SVGClipPathElement | SVGMaskElement;
+
+export interface GroupBinding {
+  group: GroupElement;
+  members: GroupMember[];
+  /** Merge mode: the <path> drawing the union of the members */
+  merged: SVGPathElement | null;
+  /** Visibility of each member's output before the merged path hid it */
+  savedVisibility: string[];
+}
+
+// Transform from el's user space to the user space of its ancestor, through
+// their CTMs; identity for detached elements, which have none. Clip paths
+// and masks have no CTM, so their content is followed up through the
+// elements' own transform attributes instead.
+function relativeTransform(el: Element, ancestor: Element): Matrix {
+  if (!(ancestor instanceof SVGGraphicsElement)) {
+    let m = IDENTITY;
+    for (let node: Element | null = el; node && node !== ancestor; node = node.parentElement) {
+      const own = node instanceof SVGGraphicsElement ? node.transform.baseVal.consolidate?.()?.matrix : undefined;
+      if (own) m = multiplyMatrix(own, m);
+    }
+    return m;
+  }
+  const m: Matrix | null = el instanceof SVGGraphicsElement ? el.getCTM() : null;
+  const a: Matrix | null = ancestor.getCTM();
+  const inverse = a && invertMatrix(a);
+  return m && inverse ? multiplyMatrix(inverse, m) : IDENTITY;
+}
+
+// Bindings by group, kept until the group is restored
+const bindings = new WeakMap<GroupElement, GroupBinding>();
+
+/**
+ * Binds the shapes drawn by a group. Tweens on the same group share the
+ * binding until it is restored. Returns null when the group draws no shapes.
+ */
+export function bindGroup(group: GroupElement): GroupBinding | null {
+  const existing = bindings.get(group);
+  if (existing) return existing;
+
+  const members: GroupMember[] = [];
+  for (const el of Array.from(group.querySelectorAll(SHAPE_SELECTOR))) {
+    const container = el.closest(UNRENDERED_SELECTOR);
+    if (container && container !== group && group.contains(container)) continue;
+    // Rings and proxies drawn by this plugin
+    if (el.hasAttribute('data-offset-contour') || el.hasAttribute('data-offset-merge')) continue;
+
+    const shape = isShapeElement(el) ? bindShape(el, [], false) : null;
+    const pathData = shape ? shape.pathData : el instanceof SVGPathElement ? el.getAttribute('d') : null;
+    if (!pathData) continue;
+    members.push({ el: el as SVGPathElement | ShapeElement, shape, pathData, toGroup: relativeTransform(el, group) });
+  }
+  if (members.length === 0) return null;
+
+  const binding: GroupBinding = { group, members, merged: null, savedVisibility: [] };
+  bindings.set(group, binding);
+  return binding;
+}
+
+/** Element a member's offset is written to (a basic shape's proxy). */
+export function memberOutput(member: GroupMember): SVGElement {
+  return member.shape ? outputElement(member.shape) : member.el;
+}
+
+/** The merged outline's <path>, added on first use with the members hidden. */
+export function mergedOutput(binding: GroupBinding): SVGPathElement {
+  if (!binding.merged) {
+    // Styled like the first member, but drawn in the group's own user space
+    const merged = createPathLike(binding.members[0].el, ['id', 'd', 'transform']);
+    merged.setAttribute('data-offset-merge', '');
+    binding.group.appendChild(merged);
+    binding.merged = merged;
+    binding.savedVisibility = binding.members.map((member) => {
+      const output = memberOutput(member);
+      const visibility = output.style.visibility;
+      output.style.visibility = 'hidden';
+      return visibility;
+    });
+  }
+  return binding.merged;
+}
+
+/** Removes the merged outline and shows the members again. */
+export function unmerge(binding: GroupBinding): void {
+  if (!binding.merged) return;
+  binding.merged.remove();
+  binding.merged = null;
+  binding.members.forEach((member, i) => {
+    memberOutput(member).style.visibility = binding.savedVisibility[i];
+  });
+}
+
+/** Puts every member back as it was before the first tween on the group. */
+export function restoreGroup(binding: GroupBinding): void {
+  unmerge(binding);
+  for (const member of binding.members) {
+    if (member.shape) {
+      restoreShape(member.shape);
+    } else {
+      member.el.setAttribute('d', member.pathData);
+      member.el.style.visibility = '';
+    }
+  }
+  bindings.delete(binding.group);
+}
+
+/**
+ * The members' rings together, mapped into the group's user space and made
+ * relative to the first one's origin.
+ */
+export function groupRings(members: GroupMember[], rings: (Ring[] | null)[]): Ring[] {
+  const mapped = members.flatMap((member, i) => (rings[i] ? transformRings(rings[i]!, member.toGroup) : []));
+  const origin = mapped[0]?.origin;
+  return mapped.map((ring) => {
+    const dx = ring.origin[0] - origin[0], dy = ring.origin[1] - origin[1];
+    if (dx === 0 && dy === 0) return ring;
+    const shift = (p: Pt): Pt => [p[0] + dx, p[1] + dy];
+    return { ...ring, points: ring.points.map(shift), vertices: ring.vertices?.map(shift), origin };
+  });
+}
+
+/**
+ * Placement of each member's offset outline (scaled, in the member's own
+ * space) that anchors the group as a whole: `source` is groupRings of the
+ * original members, `outlines` the members' offset outlines.
+ */
+export function groupPlacements(
+  members: GroupMember[],
+  outlines: (OffsetOutline | null)[],
+  source: Ring[],
+  options: ResolvedOptions,
+): (Matrix | null)[] {
+  const groupOrigin: Pt = source[0]?.origin ?? [0, 0];
+  const inGroup: Pt[][] = [];
+  outlines.forEach((outline, i) => {
+    if (!outline) return;
+    const m = scaledMatrix(members[i].toGroup, outline.scale, outline.origin, groupOrigin);
+    for (const ring of outline.rings) inGroup.push(ring.map((p) => applyMatrix(m, p)));
+  });
+  const placement = anchorPlacement(source, inGroup, options);
+  if (!placement) return members.map(() => null);
+
+  // The same placement, seen from each member's space
+  const sc = source[0]?.scale ?? SCALE;
+  return members.map(({ toGroup }, i) => {
+    const m = scaledMatrix(toGroup, sc, outlines[i]?.origin ?? [0, 0], groupOrigin);
+    const inverse = invertMatrix(m);
+    return inverse && multiplyMatrix(inverse, multiplyMatrix(placement, m));
+  });
+}
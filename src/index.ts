@@ -1,3 +1,12 @@
 export { OffsetPathPlugin } from './OffsetPathPlugin';
 export { JoinType, EndType } from './types';
-export type { OffsetPathOptions } from './types';
+export type { OffsetPathOptions, OffsetPathVars, OffsetValue, OffsetPathState, OffsetProfile, OffsetAnchor, ContourOptions, KeyframeOptions, PathDataOptions, StrokeStyle } from './types';
+export { offsetPathData, offsetContours, offsetKeyframes, toCssKeyframes, toSmilAnimate, parsePath, validatePathData, flatten, toPathData } from './api';
+export { wasmEngine } from './engine';
+export type { OffsetEngine, ClipperOffsetModule } from './engine';
+export { OffsetPathError } from './errors';
+export type { OffsetPathErrorCode } from './errors';
+export type { Subpath, Segment, ParseError, ParseErrorKind } from './parser';
+export type { Pt, Polyline, Matrix } from './geometry';
+export type { Ring } from './flatten';
+export type { ResolvedOptions } from './offset';
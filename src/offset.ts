@@ -0,0 +1,872 @@
+import type { OffsetPathOptions, OffsetPathState, OffsetProfile, PathDataOptions } from './types';
+import { JoinType, EndType } from './types';
+import type { Pt, Matrix } from './geometry';
+import { sub, add, dot, cross, len, norm, perpNormal, windingSum, applyMatrix, invertMatrix, isIdentity } from './geometry';
+import { parseSvgPath } from './parser';
+import type { Ring } from './flatten';
+import { svgToPoints, closedPoints } from './flatten';
+import { unionRings } from './union';
+import type { PathFormat, ArcIndex } from './output';
+import { ringsToPathData, DEFAULT_FORMAT, MIN_ARC_ANGLE } from './output';
+import { OffsetPathError, pathDataError } from './errors';
+import { engineFor } from './engine';
+import type { AnchorMode, AnchorFields } from './anchor';
+import { parseAnchor, centroid } from './anchor';
+
+// ---------------------------------------------------------------------------
+// Constants (match Rust defaults)
+// ---------------------------------------------------------------------------
+export const SCALE = 1000.0;
+export const FLATTEN_TOLERANCE = 0.1;
+
+/** How finely outlines are flattened (SVG units) and snapped to integers (steps per unit) */
+export interface Precision {
+  tolerance: number;
+  scale: number;
+}
+
+/** Precision at a `quality`: 2 halves the flattening tolerance and doubles the grid */
+export function precisionFor(quality: number): Precision {
+  return { tolerance: FLATTEN_TOLERANCE / quality, scale: SCALE * quality };
+}
+
+export const DEFAULT_PRECISION: Precision = precisionFor(1);
+
+// Scaled units per SVG unit of prepared rings (all rings of a path share one)
+function scaleOf(rings: Ring[]): number {
+  return rings[0]?.scale ?? SCALE;
+}
+
+// Scaled point their points are relative to (shared likewise)
+function originOf(rings: Ring[]): Pt {
+  return rings[0]?.origin ?? [0, 0];
+}
+
+// ---------------------------------------------------------------------------
+// Bounding box
+// ---------------------------------------------------------------------------
+
+export interface BBox { minX: number; minY: number; maxX: number; maxY: number; }
+
+export function bbox(rings: Pt[][]): BBox {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const ring of rings) {
+    for (const [x, y] of ring) {
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+// ---------------------------------------------------------------------------
+// Polygon offset algorithm (vertex-bisector method, port of ClipperOffset logic)
+// ---------------------------------------------------------------------------
+
+function addRoundJoin(
+  cx: number, cy: number,
+  n1: Pt, n2: Pt,
+  offsetAmt: number,
+  arcTolerance: number,
+  result: Pt[],
+  arcs: ArcIndex | null,
+): void {
+  const a1 = Math.atan2(n1[1], n1[0]);
+  const a2 = Math.atan2(n2[1], n2[0]);
+  let da = a2 - a1;
+  // Normalize to [-PI, PI]
+  while (da > Math.PI) da -= 2 * Math.PI;
+  while (da < -Math.PI) da += 2 * Math.PI;
+  addArc(cx, cy, a1, da, offsetAmt, arcTolerance, result, arcs);
+}
+
+// Arc of `da` radians from angle a1, both ends included
+function addArc(
+  cx: number, cy: number,
+  a1: number, da: number,
+  offsetAmt: number,
+  arcTolerance: number,
+  result: Pt[],
+  arcs: ArcIndex | null,
+): void {
+  // Number of arc steps based on arcTolerance
+  const r = Math.abs(offsetAmt);
+  if (r < 1) {
+    // Too small to see (a profile tapering to nothing)
+    result.push([Math.round(cx), Math.round(cy)]);
+    return;
+  }
+  const steps = Math.max(2, Math.ceil(Math.abs(da) / (2 * Math.acos(1 - arcTolerance / r))));
+  const stepAngle = da / steps;
+
+  // Record joins big enough to be written back as true arcs
+  let arcId = -1;
+  if (arcs && Math.abs(da) >= MIN_ARC_ANGLE) {
+    arcId = arcs.arcs.length;
+    arcs.arcs.push({ center: [cx, cy], radius: r });
+  }
+
+  for (let i = 0; i <= steps; i++) {
+    const a = a1 + stepAngle * i;
+    const p: Pt = [Math.round(cx + Math.cos(a) * offsetAmt), Math.round(cy + Math.sin(a) * offsetAmt)];
+    if (arcId >= 0) arcs!.byPoint.set(p[0] + ',' + p[1], arcId);
+    result.push(p);
+  }
+}
+
+// Rounded miter: an arc of radius roundness × offset tangent to both offset
+// edges. Its centre slides along the bisector from the miter point
+// (roundness 0) to the vertex itself (roundness 1, a plain round join).
+function addRoundedMiterJoin(
+  curr: Pt,
+  e1: Pt,
+  n1: Pt, n2: Pt,
+  offsetAmt: number,
+  roundness: number,
+  miterLimit: number,
+  arcTolerance: number,
+  result: Pt[],
+  arcs: ArcIndex | null,
+): void {
+  const bisect = norm(add(n1, n2));
+  const sinHalf = -cross(e1, bisect);
+  const rho = offsetAmt * Math.min(Math.max(roundness, 0), 1);
+  const toCentre = Math.abs(sinHalf) > 1e-6 ? (offsetAmt - rho) / sinHalf : Infinity;
+
+  // Same fallback as a miter: bevel when the corner reaches past the limit
+  if (Math.abs(toCentre) + Math.abs(rho) > miterLimit * Math.abs(offsetAmt)) {
+    result.push([Math.round(curr[0] + n1[0] * offsetAmt), Math.round(curr[1] + n1[1] * offsetAmt)]);
+    result.push([Math.round(curr[0] + n2[0] * offsetAmt), Math.round(curr[1] + n2[1] * offsetAmt)]);
+    return;
+  }
+
+  const cx = curr[0] + bisect[0] * toCentre;
+  const cy = curr[1] + bisect[1] * toCentre;
+  if (Math.abs(rho) < 1) {
+    result.push([Math.round(cx), Math.round(cy)]);
+    return;
+  }
+  addRoundJoin(cx, cy, n1, n2, rho, arcTolerance, result, arcs);
+}
+
+// One vertex of an offset outline, walking prev → curr → next with the
+// outline on the perpNormal side (outward for CW rings)
+function addJoin(
+  prev: Pt, curr: Pt, next: Pt,
+  offsetAmt: number,
+  joinType: JoinType,
+  roundness: number | null,
+  miterLimit: number,
+  arcTolerance: number,
+  result: Pt[],
+  arcs: ArcIndex | null,
+): void {
+  // Edge vectors
+  const e1 = norm(sub(curr, prev));
+  const e2 = norm(sub(next, curr));
+
+  // Outward normals for each edge (left normal for CCW)
+  const outN1: Pt = perpNormal(e1);
+  const outN2: Pt = perpNormal(e2);
+
+  // Cross product of edge vectors: positive = left turn (convex corner for CCW)
+  const cr = cross(e1, e2);
+  // Dot product: cosine of angle between edges
+  const dp = dot(e1, e2);
+
+  // Growing round a point where the path doubles back on itself (open paths
+  // do this): go round the tip like an end cap in the join's style
+  if (offsetAmt > 0 && Math.abs(cr) < 1e-6 && dp < 0) {
+    const style = joinType === JoinType.Round || roundness !== null ? EndType.Round
+      : joinType === JoinType.Square ? EndType.Square : EndType.Butt;
+    addCap(curr, e1, offsetAmt, style, arcTolerance, result, arcs);
+    return;
+  }
+
+  // For concave corners (right turns, cr < 0) when offsetting outward,
+  // or convex corners when offsetting inward — just use bisector
+  const offsetDir = offsetAmt > 0 ? 1 : -1;
+  const isConvex = cr * offsetDir > 0;
+
+  // A shallow corner pulls each neighbouring offset edge in by
+  // offset × tan(turn / 2); once that passes the edge length, the edge
+  // reverses and the corner is locally shrunk past collapse
+  const overshoot = !isConvex && 2 * Math.abs(offsetAmt * cr / (1 + dp)) > Math.min(len(sub(curr, prev)), len(sub(next, curr)));
+
+  if (!isConvex && Math.abs(cr) >= 1e-6 && (dp < 0.99 || overshoot)) {
+    // Concave corner: both edge normals plus the vertex itself. The small
+    // reversed loop this creates is removed by the union pass, and it is
+    // what lets the union detect paths shrunk past the point of collapse
+    // (without it a circle shrunk past its centre comes out mirrored).
+    result.push([Math.round(curr[0] + outN1[0] * offsetAmt), Math.round(curr[1] + outN1[1] * offsetAmt)]);
+    result.push([Math.round(curr[0]), Math.round(curr[1])]);
+    result.push([Math.round(curr[0] + outN2[0] * offsetAmt), Math.round(curr[1] + outN2[1] * offsetAmt)]);
+  } else if (!isConvex || Math.abs(cr) < 1e-6) {
+    // Shallow concave corner or nearly parallel: bisector point
+    const bisect = norm(add(outN1, outN2));
+    const sinHalf = -cross(e1, bisect);
+    if (Math.abs(sinHalf) < 1e-6) {
+      // Parallel edges: simple offset along normal
+      result.push([Math.round(curr[0] + outN1[0] * offsetAmt), Math.round(curr[1] + outN1[1] * offsetAmt)]);
+    } else {
+      const dist = offsetAmt / sinHalf;
+      result.push([Math.round(curr[0] + bisect[0] * dist), Math.round(curr[1] + bisect[1] * dist)]);
+    }
+  } else if (roundness !== null) {
+    addRoundedMiterJoin(curr, e1, outN1, outN2, offsetAmt, roundness, miterLimit, arcTolerance, result, arcs);
+  } else {
+    // Convex corner
+    switch (joinType) {
+      case JoinType.Miter: {
+        const bisect = norm(add(outN1, outN2));
+        const sinHalf = -cross(e1, bisect);
+        if (Math.abs(sinHalf) > 1e-6) {
+          const dist = offsetAmt / sinHalf;
+          if (Math.abs(dist) <= miterLimit * Math.abs(offsetAmt)) {
+            result.push([Math.round(curr[0] + bisect[0] * dist), Math.round(curr[1] + bisect[1] * dist)]);
+            break;
+          }
+        }
+        // Miter limit exceeded → fall through to bevel
+      }
+      // eslint-disable-next-line no-fallthrough
+      case JoinType.Bevel:
+      case JoinType.Square: {
+        // Add two points: one for each adjacent edge normal
+        result.push([Math.round(curr[0] + outN1[0] * offsetAmt), Math.round(curr[1] + outN1[1] * offsetAmt)]);
+        result.push([Math.round(curr[0] + outN2[0] * offsetAmt), Math.round(curr[1] + outN2[1] * offsetAmt)]);
+        break;
+      }
+      case JoinType.Round:
+      default: {
+        addRoundJoin(curr[0], curr[1], outN1, outN2, offsetAmt, arcTolerance, result, arcs);
+        break;
+      }
+    }
+  }
+}
+
+// Cap at the end of an open path reached heading along `dir`: from the
+// perpNormal side round to the other one
+function addCap(
+  p: Pt,
+  dir: Pt,
+  offsetAmt: number,
+  endType: EndType,
+  arcTolerance: number,
+  result: Pt[],
+  arcs: ArcIndex | null,
+): void {
+  const n: Pt = perpNormal(dir);
+  if (endType === EndType.Round) {
+    // Half turn through `dir` (increasing angles run clockwise on screen)
+    addArc(p[0], p[1], Math.atan2(n[1], n[0]), Math.PI, offsetAmt, arcTolerance, result, arcs);
+  } else {
+    // Butt: straight across the end; Square: the same, pushed out by the offset
+    const ext = endType === EndType.Square ? 1 : 0;
+    result.push([Math.round(p[0] + (n[0] + dir[0] * ext) * offsetAmt), Math.round(p[1] + (n[1] + dir[1] * ext) * offsetAmt)]);
+    result.push([Math.round(p[0] + (dir[0] * ext - n[0]) * offsetAmt), Math.round(p[1] + (dir[1] * ext - n[1]) * offsetAmt)]);
+  }
+}
+
+// A ring shrunk by more than half its narrower side has nothing left (as in
+// ClipperOffset). Skipping it saves the union from the loops its joins leave
+// behind, which would otherwise cut into the rings that overlap it.
+function collapses(pts: Pt[], offsets: number[]): boolean {
+  const sign = Math.sign(windingSum(pts));
+  const box = bbox([pts]);
+  const half = Math.min(box.maxX - box.minX, box.maxY - box.minY) / 2;
+  return offsets.every((d) => d * sign > half);
+}
+
+// `offsets` holds the offset at each vertex (a profile makes them differ)
+function offsetPolygon(
+  pts: Pt[],
+  offsets: number[],
+  joinType: JoinType,
+  roundness: number | null,
+  miterLimit: number,
+  arcTolerance: number,
+  arcs: ArcIndex | null = null,
+): Pt[] {
+  const n = pts.length;
+  if (n < 3 || collapses(pts, offsets)) return [];
+  const result: Pt[] = [];
+  for (let i = 0; i < n; i++) {
+    addJoin(pts[(i - 1 + n) % n], pts[i], pts[(i + 1) % n], offsets[i], joinType, roundness, miterLimit, arcTolerance, result, arcs);
+  }
+  return result;
+}
+
+// Outline of both sides of an open path (port of ClipperOffset's
+// OffsetOpenPath): down one side, round the end cap, back along the other
+// side and round the start cap. The outline runs CW for positive offsets.
+function offsetOpenPath(
+  pts: Pt[],
+  offsets: number[],
+  joinType: JoinType,
+  endType: EndType,
+  roundness: number | null,
+  miterLimit: number,
+  arcTolerance: number,
+  arcs: ArcIndex | null = null,
+): Pt[] {
+  const n = pts.length;
+  const result: Pt[] = [];
+
+  if (n === 1) {
+    // A lone point (e.g. "M5 5 l0 0") draws a dot with round or square caps
+    if (endType === EndType.Butt) return [];
+    if (endType === EndType.Round) {
+      addArc(pts[0][0], pts[0][1], -Math.PI / 2, 2 * Math.PI, offsets[0], arcTolerance, result, arcs);
+      result.pop();
+    } else {
+      addCap(pts[0], [0, -1], offsets[0], endType, arcTolerance, result, arcs);
+      addCap(pts[0], [0, 1], offsets[0], endType, arcTolerance, result, arcs);
+    }
+    return result;
+  }
+
+  const sides: [Pt[], number[]][] = [[pts, offsets], [pts.slice().reverse(), offsets.slice().reverse()]];
+  for (const [side, d] of sides) {
+    for (let i = 1; i < n - 1; i++) {
+      addJoin(side[i - 1], side[i], side[i + 1], d[i], joinType, roundness, miterLimit, arcTolerance, result, arcs);
+    }
+    addCap(side[n - 1], norm(sub(side[n - 1], side[n - 2])), d[n - 1], endType, arcTolerance, result, arcs);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Offset profiles (variable offset along the path)
+// ---------------------------------------------------------------------------
+
+// Edges longer than this fraction of their subpath are split, so a profile
+// has vertices to act on along straight runs
+const PROFILE_SAMPLES = 256;
+
+function profileValue(profile: OffsetProfile, t: number, point: Pt, normal: Pt, closed: boolean): number {
+  if (typeof profile === 'function') return profile(t, point, normal);
+  const n = profile.length;
+  if (n === 1) return profile[0];
+  // Keyframes on a closed subpath wrap back round to the first one
+  const pos = t * (closed ? n : n - 1);
+  const i = Math.min(Math.floor(pos), closed ? n - 1 : n - 2);
+  const f = pos - i;
+  return profile[i] * (1 - f) + profile[(i + 1) % n] * f;
+}
+
+/**
+ * Splits long edges of a ring and evaluates the profile at every vertex.
+ * `t` follows the subpath's own direction even where winding normalisation
+ * reversed the points; points are passed in unscaled units.
+ */
+function sampleProfile(ring: Ring, delta: number, profile: OffsetProfile): { points: Pt[]; offsets: number[] } {
+  const src = ring.points;
+  const n = src.length;
+  const edges = ring.closed ? n : n - 1;
+  let total = 0;
+  for (let i = 0; i < edges; i++) total += len(sub(src[(i + 1) % n], src[i]));
+
+  const points: Pt[] = [];
+  const lengths: number[] = [];
+  const step = total / PROFILE_SAMPLES;
+  let acc = 0;
+  for (let i = 0; i < n; i++) {
+    points.push(src[i]);
+    lengths.push(acc);
+    if (i === edges) break;
+    const a = src[i], b = src[(i + 1) % n];
+    const l = len(sub(b, a));
+    const parts = step > 0 ? Math.ceil(l / step) : 1;
+    for (let k = 1; k < parts; k++) {
+      points.push([Math.round(a[0] + (b[0] - a[0]) * k / parts), Math.round(a[1] + (b[1] - a[1]) * k / parts)]);
+      lengths.push(acc + l * k / parts);
+    }
+    acc += l;
+  }
+
+  // Arc length along the points, back to front for reversed rings
+  const last = lengths[lengths.length - 1];
+  const m = points.length;
+  const offsets: number[] = [];
+  for (let i = 0; i < m; i++) {
+    const t = total > 0 ? (ring.reversed ? last - lengths[i] : lengths[i]) / total : 0;
+    const prev = points[(i - 1 + m) % m], curr = points[i], next = points[(i + 1) % m];
+    const e1 = ring.closed || i > 0 ? norm(sub(curr, prev)) : norm(sub(next, curr));
+    const e2 = ring.closed || i < m - 1 ? norm(sub(next, curr)) : e1;
+    let normal = norm(add(perpNormal(e1), perpNormal(e2)));
+    if (normal[0] === 0 && normal[1] === 0) normal = perpNormal(e1);
+    offsets.push(delta * profileValue(profile, t, [(curr[0] + ring.origin[0]) / ring.scale, (curr[1] + ring.origin[1]) / ring.scale], normal, ring.closed));
+  }
+  return { points, offsets };
+}
+
+// ---------------------------------------------------------------------------
+// Main offset orchestrator (replaces wasmModule.offset_svg_path)
+// ---------------------------------------------------------------------------
+
+/** Offset options with every default filled in */
+export interface ResolvedOptions {
+  profile: OffsetProfile | null;
+  joinType: JoinType;
+  endType: EndType;
+  roundness: number | null;
+  miterLimit: number;
+  arcTolerance: number;
+  originX: number | null;
+  originY: number | null;
+  anchorX: number | null;
+  anchorY: number | null;
+  anchor: AnchorMode | null;
+}
+
+// An explicit anchor replaces every inherited one; an explicit origin only
+// the anchors that conflict with it
+function resolveAnchor(options: OffsetPathOptions, base?: ResolvedOptions): AnchorFields {
+  if (options.anchor !== undefined) return parseAnchor(options.anchor);
+  const { originX, originY } = options;
+  return {
+    originX: originX ?? base?.originX ?? null,
+    originY: originY ?? base?.originY ?? null,
+    anchorX: originX === undefined ? base?.anchorX ?? null : null,
+    anchorY: originY === undefined ? base?.anchorY ?? null : null,
+    anchor:  originX === undefined && originY === undefined ? base?.anchor ?? null : null,
+  };
+}
+
+/**
+ * Fills in defaults. Options missing from `options` are taken from `base`
+ * when given (the plugin passes the options last rendered on the element).
+ * Throws an OffsetPathError for an anchor it can't read.
+ */
+export function resolveOptions(options: OffsetPathOptions, base?: ResolvedOptions): ResolvedOptions {
+  return {
+    // null is an explicit "no profile", so only undefined inherits
+    profile:      options.profile !== undefined ? options.profile : base?.profile ?? null,
+    joinType:     options.joinType     ?? base?.joinType     ?? JoinType.Round,
+    endType:      options.endType      ?? base?.endType      ?? EndType.Polygon,
+    // An explicit join type replaces an inherited blend
+    roundness:    options.roundness    ?? (options.joinType === undefined ? base?.roundness ?? null : null),
+    miterLimit:   options.miterLimit   ?? base?.miterLimit   ?? 2.0,
+    arcTolerance: options.arcTolerance ?? base?.arcTolerance ?? 0.25,
+    ...resolveAnchor(options, base),
+  };
+}
+
+export function resolveFormat(options: PathDataOptions): PathFormat {
+  return {
+    precision:      options.precision      ?? DEFAULT_FORMAT.precision,
+    compact:        options.compact        ?? DEFAULT_FORMAT.compact,
+    curveTolerance: options.curveTolerance ?? DEFAULT_FORMAT.curveTolerance,
+    pointCount:     options.pointCount     ?? DEFAULT_FORMAT.pointCount,
+    maxVertices:    options.maxVertices    ?? DEFAULT_FORMAT.maxVertices,
+  };
+}
+
+// Flattening coarsens by doubling the tolerance this many times at most to
+// meet a vertex budget
+const MAX_COARSENING = 16;
+
+/**
+ * Parses, flattens, scales and winding-normalises path data: everything that
+ * doesn't depend on the offset amount, so it can be done once per path.
+ * Curves are flattened more coarsely when their points alone would exceed
+ * `maxVertices`. Throws an OffsetPathError when there is nothing to offset.
+ */
+export function prepareRings(pathData: string, precision: Precision = DEFAULT_PRECISION, maxVertices: number | null = null): Ring[] {
+  const { subpaths, error } = parseSvgPath(pathData);
+  if (subpaths.length === 0 && error) {
+    throw pathDataError(error);
+  }
+  let tolerance = precision.tolerance;
+  let rings = svgToPoints(subpaths, precision.scale, tolerance);
+  for (let k = 0; k < MAX_COARSENING && rings && maxVertices !== null; k++) {
+    if (rings.reduce((n, ring) => n + ring.points.length, 0) <= maxVertices) break;
+    tolerance *= 2;
+    rings = svgToPoints(subpaths, precision.scale, tolerance);
+  }
+  if (!rings) throw new OffsetPathError('EmptyPath', 'Path data has nothing to offset');
+  return rings;
+}
+
+/**
+ * Bounding box and filled area (holes subtracted) of path data, in its own
+ * units. Open subpaths count as closed, as an SVG fill draws them.
+ */
+export function measurePath(pathData: string): Pick<OffsetPathState, 'bbox' | 'area'> {
+  let rings: Ring[];
+  try {
+    rings = prepareRings(pathData);
+  } catch (error) {
+    if (!(error instanceof OffsetPathError)) throw error;
+    return { bbox: null, area: 0 };
+  }
+  const box = bbox(rings.map((line) => line.points));
+  const sc = scaleOf(rings);
+  const [ox, oy] = originOf(rings);
+  // Outer contours wind CW (negative sums) and holes CCW
+  const sum = rings.reduce((total, line) => total + windingSum(line.points), 0);
+  return {
+    bbox: { x: (box.minX + ox) / sc, y: (box.minY + oy) / sc, width: (box.maxX - box.minX) / sc, height: (box.maxY - box.minY) / sc },
+    area: -sum / 2 / (sc * sc),
+  };
+}
+
+/**
+ * Offsets path data by `offsetAmt` SVG units. Returns '' when the offset
+ * collapses the shape; throws an OffsetPathError when there is nothing to
+ * offset.
+ */
+export function offsetSvgPath(
+  pathData: string,
+  offsetAmt: number,
+  options: ResolvedOptions,
+  format: PathFormat = DEFAULT_FORMAT,
+  transform: Matrix | null = null,
+  precision: Precision = DEFAULT_PRECISION,
+): string {
+  // A fixed point count resamples even the untouched outline
+  if (!isFinite(offsetAmt) || (Math.abs(offsetAmt) < 0.001 && format.pointCount === null)) return pathData;
+  const rings = prepareRings(pathData, precision, format.maxVertices);
+  // Filled as polygons, lines and dots have no area to offset
+  if (options.endType === EndType.Polygon && rings.every((line) => closedPoints(line.points).length < 3)) {
+    throw new OffsetPathError('EmptyPath', 'Path data has no subpath with an area to offset');
+  }
+  return offsetRings(rings, offsetAmt, options, format, transform);
+}
+
+// Point i of a ring and the direction a positive offset moves it in: the
+// bisector of its edge normals, or the end edge's normal on an open subpath
+function vertexDirection(pts: Pt[], i: number, closed: boolean): { p: Pt; dir: Pt } {
+  const n = pts.length;
+  if (n < 2) return { p: pts[0], dir: [0, -1] };
+  const normalOf = (a: Pt, b: Pt): Pt => perpNormal(norm(sub(b, a)));
+  if (!closed && (i === 0 || i === n - 1)) {
+    return { p: pts[i], dir: i === 0 ? normalOf(pts[0], pts[1]) : normalOf(pts[n - 2], pts[n - 1]) };
+  }
+  const into = normalOf(pts[(i - 1 + n) % n], pts[i]), out = normalOf(pts[i], pts[(i + 1) % n]);
+  const bisector = norm(add(into, out));
+  return { p: pts[i], dir: bisector[0] === 0 && bisector[1] === 0 ? out : bisector };
+}
+
+// First vertex of a subpath as drawn (the last point of a reversed ring)
+function subpathStart(ring: Ring, closeAll: boolean): { p: Pt; dir: Pt } {
+  const closed = ring.closed || closeAll;
+  const pts = closed ? closedPoints(ring.points) : ring.points;
+  return vertexDirection(pts, ring.reversed ? pts.length - 1 : 0, closed);
+}
+
+// Where the line through p along dir first meets the closed ring pts, on
+// either side of p: [distance from p, segment, point]
+function castOnRing(pts: Pt[], p: Pt, dir: Pt): [number, number, Pt] {
+  let best: [number, number, Pt] = [Infinity, 0, pts[0]];
+  for (let i = 0; i < pts.length; i++) {
+    const a = pts[i], e = sub(pts[(i + 1) % pts.length], a);
+    const denom = cross(dir, e);
+    if (Math.abs(denom) < 1e-12) continue;
+    const ap = sub(a, p);
+    const u = cross(ap, dir) / denom;
+    if (u < 0 || u > 1) continue;
+    const s = cross(ap, e) / denom;
+    if (Math.abs(s) < best[0]) best = [Math.abs(s), i, [a[0] + e[0] * u, a[1] + e[1] * u]];
+  }
+  return best;
+}
+
+// Gives each offset ring a start that follows its source from frame to frame,
+// for resampling to a fixed point count: the ring starts where the nearest
+// source subpath's first vertex moves to along its normal, and rings are
+// ordered by that subpath, so the same points keep the same place in the output.
+function alignRings(merged: Pt[][], sources: Ring[], closeAll: boolean): Pt[][] {
+  const starts = sources.map((ring) => subpathStart(ring, closeAll));
+  const aligned = merged.map((ring) => {
+    let best: [number, number, Pt] = [Infinity, 0, ring[0]];
+    let source = 0;
+    starts.forEach(({ p, dir }, i) => {
+      const hit = castOnRing(ring, p, dir);
+      if (hit[0] < best[0]) { best = hit; source = i; }
+    });
+    const [, seg, start] = best;
+    const rest = [...ring.slice(seg + 1), ...ring.slice(0, seg + 1)];
+    // Run the way the source subpath was drawn, as a morph would expect
+    return { source, points: [start, ...(sources[source].reversed ? rest.reverse() : rest)] };
+  });
+  aligned.sort((a, b) => a.source - b.source);
+  return aligned.map((r) => r.points);
+}
+
+/**
+ * The transform `m`, given in unscaled units, between scaled points relative
+ * to `from` and scaled points relative to `to`.
+ */
+export function scaledMatrix(m: Matrix, sc: number, from: Pt, to: Pt): Matrix {
+  const [x, y] = applyMatrix({ ...m, e: m.e * sc, f: m.f * sc }, from);
+  return { a: m.a, b: m.b, c: m.c, d: m.d, e: x - to[0], f: y - to[1] };
+}
+
+// Maps scaled polylines through a transform given in unscaled units, relative
+// to where their origin maps to. Reflections reverse every ring so outer
+// contours keep their CW winding.
+export function transformRings(rings: Ring[], m: Matrix): Ring[] {
+  const sc = scaleOf(rings);
+  const from = originOf(rings);
+  const [x, y] = applyMatrix({ ...m, e: m.e * sc, f: m.f * sc }, from);
+  const origin: Pt = [Math.round(x), Math.round(y)];
+  const scaled = scaledMatrix(m, sc, from, origin);
+  const flip = m.a * m.d - m.b * m.c < 0;
+  const result: Ring[] = [];
+  for (const { points, closed, reversed, vertices, scale } of rings) {
+    let out: Pt[] = [];
+    for (const p of points) {
+      const [x, y] = applyMatrix(scaled, p);
+      const q: Pt = [Math.round(x), Math.round(y)];
+      const last = out[out.length - 1];
+      if (!last || last[0] !== q[0] || last[1] !== q[1]) out.push(q);
+    }
+    if (closed) {
+      out = closedPoints(out);
+      if (out.length < 3) continue;
+    }
+    result.push({
+      points: flip ? out.reverse() : out,
+      closed,
+      reversed: reversed !== flip,
+      vertices: vertices?.map((p) => applyMatrix(scaled, p)),
+      scale,
+      origin,
+    });
+  }
+  return result;
+}
+
+// The cap a join makes turning 180° round the end of a lone segment, as in
+// Clipper2's Joined outlines: miters past any limit fall back to square
+function segmentCap(joinType: JoinType): EndType {
+  if (joinType === JoinType.Round) return EndType.Round;
+  if (joinType === JoinType.Bevel) return EndType.Butt;
+  return EndType.Square;
+}
+
+// The built-in engine: each ring is offset on its own (holes were reversed
+// by svgToPoints, so the same signed offset grows outer contours and shrinks
+// holes), then the union pass merges the results
+function offsetAndMerge(source: Ring[], delta: number, options: ResolvedOptions, arcs: ArcIndex | null): Pt[][] {
+  const { profile, joinType: jt, endType: et, roundness, miterLimit, arcTolerance } = options;
+  const rawRings: Pt[][] = [];
+  const keep = (pts: Pt[]): void => { if (pts.length >= 3) rawRings.push(pts); };
+  for (const ring of source) {
+    // Joined closes open subpaths, but a lone segment has no inside to
+    // outline: it is outlined open, its ends turned by the join
+    const segment = et === EndType.Joined && !ring.closed && closedPoints(ring.points).length < 3;
+    const closed = !segment && (ring.closed || et === EndType.Polygon || et === EndType.Joined);
+    let points = closed ? closedPoints(ring.points) : ring.points;
+    let offsets: number[];
+    if (profile) {
+      ({ points, offsets } = sampleProfile({ ...ring, points, closed }, delta, profile));
+    } else {
+      offsets = points.map(() => delta);
+    }
+
+    if (et === EndType.Polygon) {
+      keep(offsetPolygon(points, offsets, jt, roundness, miterLimit, arcTolerance, arcs));
+      continue;
+    }
+    const widths = offsets.map(Math.abs);
+    if (closed) {
+      // Both sides of the closed outline: the reversed copy's offset runs
+      // the other way round, so the union cuts it out as the inner edge
+      keep(offsetPolygon(points, widths, jt, roundness, miterLimit, arcTolerance, arcs));
+      keep(offsetPolygon(points.slice().reverse(), widths.slice().reverse(), jt, roundness, miterLimit, arcTolerance, arcs));
+    } else {
+      keep(offsetOpenPath(points, widths, jt, segment ? segmentCap(jt) : et, roundness, miterLimit, arcTolerance, arcs));
+    }
+  }
+
+  // Union pass: removes the loops and inverted corners left by the bisector
+  // offset, splits pinched shapes into islands and merges touching contours
+  return unionRings(rawRings);
+}
+
+/** An offset before anchoring and writing: scaled points in the rings' own space */
+export interface OffsetOutline {
+  rings: Pt[][];
+  /** Round joins, for curve output */
+  arcs: ArcIndex | null;
+  /** Scaled units per SVG unit, as in the source rings */
+  scale: number;
+  /** Scaled point the rings are relative to, as in the source rings */
+  origin: Pt;
+}
+
+/**
+ * The offset step of offsetRings, for callers that anchor several outlines
+ * together. Returns null when the offset collapses the shape.
+ */
+export function offsetOutline(
+  rings: Ring[],
+  offsetAmt: number,
+  options: ResolvedOptions,
+  format: PathFormat = DEFAULT_FORMAT,
+  transform: Matrix | null = null,
+): OffsetOutline | null {
+  const et = options.endType;
+  const inverse = transform && !isIdentity(transform) ? invertMatrix(transform) : null;
+  const source = inverse ? transformRings(rings, transform!) : rings;
+
+  // Curve output writes round joins back as arcs, so remember where they are
+  // (only without a transform: mapped back, a join arc is an elliptical arc).
+  // Other engines don't report their joins, so their curves are all fitted.
+  const engine = engineFor(options);
+  const arcs: ArcIndex | null = format.curveTolerance && !inverse && !engine ? { arcs: [], byPoint: new Map() } : null;
+  const sc = scaleOf(rings);
+  const delta = offsetAmt * sc;
+  let merged = engine ? engine.offsetRings(source, delta, options) : offsetAndMerge(source, delta, options, arcs);
+  if (merged.length === 0) return null;
+  if (inverse) {
+    const back = scaledMatrix(inverse, sc, originOf(source), originOf(rings));
+    merged = merged.map((ring) => ring.map((p) => applyMatrix(back, p)));
+  }
+  if (format.pointCount !== null) merged = alignRings(merged, rings, et === EndType.Polygon || et === EndType.Joined);
+  return { rings: merged, arcs, scale: sc, origin: originOf(rings) };
+}
+
+/**
+ * Translation that puts the originX / originY point of the `after` box where
+ * it was in the `before` box (port of Rust origin_x / origin_y logic).
+ * Applied by the writer, so arc lookups still match the untranslated points.
+ */
+export function anchorTranslation(before: BBox, after: BBox, originX: number | null, originY: number | null): Pt {
+  const dx = originX !== null
+    ? Math.round((before.minX + (before.maxX - before.minX) * originX)
+               - (after.minX  + (after.maxX  - after.minX)  * originX))
+    : 0;
+  const dy = originY !== null
+    ? Math.round((before.minY + (before.maxY - before.minY) * originY)
+               - (after.minY  + (after.maxY  - after.minY)  * originY))
+    : 0;
+  return [dx, dy];
+}
+
+function translation([e, f]: Pt): Matrix {
+  return { a: 1, b: 0, c: 0, d: 1, e, f };
+}
+
+// Fraction of the box at `units` (scaled), the middle of an empty box
+function fractionAt(min: number, max: number, units: number): number {
+  return max > min ? (units - min) / (max - min) : 0.5;
+}
+
+// Maps the `after` box onto the `before` box axis by axis; an axis with no
+// extent on either side is centred instead of scaled
+function fitBox(before: BBox, after: BBox): Matrix {
+  const axis = (b0: number, b1: number, a0: number, a1: number): [number, number] => {
+    const scale = b1 > b0 && a1 > a0 ? (b1 - b0) / (a1 - a0) : 1;
+    return [scale, (b0 + b1) / 2 - ((a0 + a1) / 2) * scale];
+  };
+  const [a, e] = axis(before.minX, before.maxX, after.minX, after.maxX);
+  const [d, f] = axis(before.minY, before.maxY, after.minY, after.maxY);
+  return { a, b: 0, c: 0, d, e, f };
+}
+
+// Where vertex `index` of the path data moves to on the outline: cast along
+// the vertex's normal to the nearest crossing, as for pointCount starts
+function pinnedVertex(source: Ring[], outline: Pt[][], index: number, closeAll: boolean): [Pt, Pt] | null {
+  for (const ring of source) {
+    const vertices = ring.vertices ?? [];
+    if (index >= vertices.length) {
+      index -= vertices.length;
+      continue;
+    }
+    const closed = ring.closed || closeAll;
+    const pts = closed ? closedPoints(ring.points) : ring.points;
+    const v = vertices[index];
+    let nearest = 0;
+    pts.forEach((p, i) => {
+      if (len(sub(p, v)) < len(sub(pts[nearest], v))) nearest = i;
+    });
+    const { p, dir } = vertexDirection(pts, nearest, closed);
+    let best: [number, number, Pt] = [Infinity, 0, p];
+    for (const ring of outline) {
+      const hit = castOnRing(ring, p, dir);
+      if (hit[0] < best[0]) best = hit;
+    }
+    return best[0] < Infinity ? [p, best[2]] : null;
+  }
+  return null;
+}
+
+/**
+ * Where the offset `outline` of `source` is placed to honour the anchor
+ * options, as a transform in scaled units; null leaves it where it is.
+ * Everything but `fit` is a whole-unit translation.
+ */
+export function anchorPlacement(source: Ring[], outline: Pt[][], options: ResolvedOptions): Matrix | null {
+  const { anchor, anchorX, anchorY } = options;
+  let { originX, originY } = options;
+  if (anchor === null && originX === null && originY === null && anchorX === null && anchorY === null) return null;
+  if (outline.length === 0) return null;
+
+  const sourcePoints = source.map((ring) => ring.points);
+  const before = bbox(sourcePoints), after = bbox(outline);
+  if (anchor === 'fit') return fitBox(before, after);
+  if (anchor === 'centroid') {
+    // Lines and dots have no centre of area; their box centre stands in
+    const from = centroid(sourcePoints.map((points) => closedPoints(points)));
+    const to = centroid(outline);
+    if (from && to) return translation([Math.round(from[0] - to[0]), Math.round(from[1] - to[1])]);
+    return translation(anchorTranslation(before, after, 0.5, 0.5));
+  }
+  if (anchor !== null) {
+    const et = options.endType;
+    const pinned = pinnedVertex(source, outline, anchor.vertex, et === EndType.Polygon || et === EndType.Joined);
+    return pinned && translation([Math.round(pinned[0][0] - pinned[1][0]), Math.round(pinned[0][1] - pinned[1][1])]);
+  }
+
+  // Points in SVG units become fractions of the original box
+  const [ox, oy] = originOf(source);
+  if (anchorX !== null) originX = fractionAt(before.minX, before.maxX, anchorX * scaleOf(source) - ox);
+  if (anchorY !== null) originY = fractionAt(before.minY, before.maxY, anchorY * scaleOf(source) - oy);
+  return translation(anchorTranslation(before, after, originX, originY));
+}
+
+/**
+ * Offsets rings from prepareRings by `offsetAmt` ('' when collapsed).
+ * The offset is measured in user units, or after `transform` when one is
+ * given: the rings are offset in the transformed space and mapped back, so
+ * non-uniform scales and skews get an even outline in that space.
+ *
+ * End types follow Clipper2: `Polygon` fills every subpath as a closed
+ * polygon; the others outline both sides of the path by `|offsetAmt|`.
+ * `Joined` closes each subpath first, while `Butt`, `Square` and `Round` cap
+ * the ends of open subpaths (no Z) and treat closed ones as `Joined`.
+ * A profile scales the offset vertex by vertex. The offset itself is left
+ * to the engine set with OffsetPathPlugin.useEngine, if any.
+ */
+export function offsetRings(
+  rings: Ring[],
+  offsetAmt: number,
+  options: ResolvedOptions,
+  format: PathFormat = DEFAULT_FORMAT,
+  transform: Matrix | null = null,
+): string {
+  const outline = offsetOutline(rings, offsetAmt, options, format, transform);
+  if (!outline) return '';
+  return outlineToPathData(outline, format, anchorPlacement(rings, outline.rings, options));
+}
+
+/** Writes an outline from offsetOutline, placed by `placement` (scaled units). */
+export function outlineToPathData(
+  outline: OffsetOutline,
+  format: PathFormat = DEFAULT_FORMAT,
+  placement: Matrix | null = null,
+): string {
+  const { a, b, c, d, e, f } = placement ?? { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+  const [ox, oy] = outline.origin;
+  if (a === 1 && b === 0 && c === 0 && d === 1) return ringsToPathData(outline.rings, outline.scale, format, [e + ox, f + oy], outline.arcs);
+  // Scaled, the round joins are no longer the arcs that were recorded
+  const rings = outline.rings.map((ring) => ring.map((p) => applyMatrix(placement!, p)));
+  return ringsToPathData(rings, outline.scale, format, [ox, oy], null);
+}
@@ -0,0 +1,548 @@
+import type { Pt, Polyline } from './geometry';
+import { sub, add, scale2, dot, cross, len, norm } from './geometry';
+
+// ---------------------------------------------------------------------------
+// Rings → SVG path data
+//
+// The default writer emits one `M … L … Z` polyline per ring (port of
+// path64_to_svg / paths64_to_svg). With a curve tolerance, each ring is
+// rebuilt from true arcs (where the points came from a round join) and cubic
+// Béziers fitted to everything else (Schneider, "An Algorithm for
+// Automatically Fitting Digitized Curves", Graphics Gems 1990).
+// ---------------------------------------------------------------------------
+
+export interface PathFormat {
+  /** Decimal places per coordinate */
+  precision: number;
+  /** Relative commands, shortest number syntax, no repeated command letters */
+  compact: boolean;
+  /** Max distance (SVG units) between fitted curves and the polyline, or null for a polyline */
+  curveTolerance: number | null;
+  /** Vertices written per ring, resampled evenly by arc length, or null to keep them all */
+  pointCount: number | null;
+  /** Most vertices written in all, simplifying the rings to fit, or null for no limit */
+  maxVertices: number | null;
+}
+
+export const DEFAULT_FORMAT: PathFormat = { precision: 2, compact: false, curveTolerance: null, pointCount: null, maxVertices: null };
+
+/** A round join emitted by the offsetter, in scaled integer coordinates */
+export interface JoinArc {
+  center: Pt;
+  radius: number;
+}
+
+/** Round joins and the output points that lie on them, keyed by "x,y" */
+export interface ArcIndex {
+  arcs: JoinArc[];
+  byPoint: Map<string, number>;
+}
+
+// Joins sweeping less than this are left to the curve fitter, so a flattened
+// curve offset with round joins doesn't become hundreds of tiny arcs.
+export const MIN_ARC_ANGLE = Math.PI / 8;
+// Turning angle above which a vertex is a corner the fitter must not smooth
+const CORNER_ANGLE = Math.PI / 6;
+
+type Command =
+  | { c: 'M'; p: Pt }
+  | { c: 'L'; p: Pt }
+  | { c: 'C'; c1: Pt; c2: Pt; p: Pt }
+  | { c: 'A'; r: number; large: number; sweep: number; p: Pt }
+  | { c: 'Z' };
+
+// ---------------------------------------------------------------------------
+// Cubic fitting
+// ---------------------------------------------------------------------------
+
+function bezierAt(b: Pt[], t: number): Pt {
+  const mt = 1 - t;
+  const a = mt * mt * mt, c = 3 * mt * mt * t, d = 3 * mt * t * t, e = t * t * t;
+  return [
+    a * b[0][0] + c * b[1][0] + d * b[2][0] + e * b[3][0],
+    a * b[0][1] + c * b[1][1] + d * b[2][1] + e * b[3][1],
+  ];
+}
+
+function chordParams(pts: Pt[]): number[] {
+  const u = [0];
+  for (let i = 1; i < pts.length; i++) u.push(u[i - 1] + len(sub(pts[i], pts[i - 1])));
+  const total = u[u.length - 1] || 1;
+  return u.map((v) => v / total);
+}
+
+// Least-squares control points for fixed end tangents
+function generateBezier(pts: Pt[], u: number[], t1: Pt, t2: Pt): Pt[] {
+  const first = pts[0], last = pts[pts.length - 1];
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const t = u[i], mt = 1 - t;
+    const a1 = scale2(t1, 3 * mt * mt * t);
+    const a2 = scale2(t2, 3 * mt * t * t);
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+    const base = bezierAt([first, first, last, last], t);
+    const tmp = sub(pts[i], base);
+    x0 += dot(a1, tmp);
+    x1 += dot(a2, tmp);
+  }
+  const det = c00 * c11 - c01 * c01;
+  let alpha1 = det !== 0 ? (x0 * c11 - x1 * c01) / det : 0;
+  let alpha2 = det !== 0 ? (c00 * x1 - c01 * x0) / det : 0;
+
+  // Degenerate solution: fall back to the Wu/Barsky heuristic
+  const segLen = len(sub(last, first));
+  const eps = 1e-6 * segLen;
+  if (alpha1 < eps || alpha2 < eps) alpha1 = alpha2 = segLen / 3;
+
+  return [first, add(first, scale2(t1, alpha1)), add(last, scale2(t2, alpha2)), last];
+}
+
+// Also measured between the points, as the distance from the chord: where a
+// long straight run meets a flattened curve the points alone miss the cubic
+// bulging along the run. Chords of a flattened curve are themselves up to
+// the flatten tolerance off, hence the halved weight.
+function maxError(pts: Pt[], b: Pt[], u: number[]): { dist: number; index: number } {
+  const n = pts.length;
+  let dist = 0, index = Math.floor(n / 2);
+  for (let i = 1; i < n; i++) {
+    if (i < n - 1) {
+      const d = len(sub(bezierAt(b, u[i]), pts[i]));
+      if (d > dist) { dist = d; index = i; }
+    }
+    const d = chordDistance(bezierAt(b, (u[i - 1] + u[i]) / 2), pts[i - 1], pts[i]) / 2;
+    if (d > dist) { dist = d; index = Math.min(Math.max(i - 1, 1), n - 2); }
+  }
+  return { dist, index };
+}
+
+function chordDistance(p: Pt, a: Pt, b: Pt): number {
+  const ab = sub(b, a);
+  const l2 = dot(ab, ab);
+  const t = l2 > 0 ? Math.min(Math.max(dot(sub(p, a), ab) / l2, 0), 1) : 0;
+  return len(sub(p, add(a, scale2(ab, t))));
+}
+
+// One Newton-Raphson step towards the closest parameter for each point
+function reparameterize(pts: Pt[], b: Pt[], u: number[]): number[] {
+  const d1 = [sub(b[1], b[0]), sub(b[2], b[1]), sub(b[3], b[2])].map((v) => scale2(v, 3));
+  const d2 = [sub(d1[1], d1[0]), sub(d1[2], d1[1])].map((v) => scale2(v, 2));
+  return u.map((t, i) => {
+    const mt = 1 - t;
+    const p = bezierAt(b, t);
+    const q1: Pt = add(add(scale2(d1[0], mt * mt), scale2(d1[1], 2 * mt * t)), scale2(d1[2], t * t));
+    const q2: Pt = add(scale2(d2[0], mt), scale2(d2[1], t));
+    const diff = sub(p, pts[i]);
+    const den = dot(q1, q1) + dot(diff, q2);
+    return den !== 0 ? Math.min(1, Math.max(0, t - dot(diff, q1) / den)) : t;
+  });
+}
+
+function fitCubic(pts: Pt[], t1: Pt, t2: Pt, tol: number, out: Command[]): void {
+  const last = pts[pts.length - 1];
+  if (pts.length === 2) {
+    const d = len(sub(last, pts[0])) / 3;
+    out.push({ c: 'C', c1: add(pts[0], scale2(t1, d)), c2: add(last, scale2(t2, d)), p: last });
+    return;
+  }
+
+  let u = chordParams(pts);
+  let b = generateBezier(pts, u, t1, t2);
+  let err = maxError(pts, b, u);
+  if (err.dist <= tol) {
+    out.push({ c: 'C', c1: b[1], c2: b[2], p: last });
+    return;
+  }
+
+  // Reparameterize before giving up on a single cubic; chord-length
+  // parameters alone are poor on long round spans
+  if (err.dist <= tol * 20) {
+    for (let i = 0; i < 8; i++) {
+      u = reparameterize(pts, b, u);
+      b = generateBezier(pts, u, t1, t2);
+      err = maxError(pts, b, u);
+      if (err.dist <= tol) {
+        out.push({ c: 'C', c1: b[1], c2: b[2], p: last });
+        return;
+      }
+    }
+  }
+
+  // Split at the worst point with a shared tangent and fit both halves
+  const k = err.index;
+  const center = norm(sub(pts[k - 1], pts[k + 1]));
+  fitCubic(pts.slice(0, k + 1), t1, center, tol, out);
+  fitCubic(pts.slice(k), scale2(center, -1), t2, tol, out);
+}
+
+function isStraight(pts: Pt[], tol: number): boolean {
+  const a = pts[0], b = pts[pts.length - 1];
+  const d = sub(b, a);
+  const l = len(d);
+  for (let i = 1; i < pts.length - 1; i++) {
+    const off = l > 0 ? Math.abs(cross(d, sub(pts[i], a))) / l : len(sub(pts[i], a));
+    if (off > tol) return false;
+  }
+  return true;
+}
+
+// Lines or fitted cubics through pts (first point already emitted)
+function fitSpan(pts: Pt[], t1: Pt, t2: Pt, tol: number, out: Command[]): void {
+  if (pts.length === 2 || isStraight(pts, tol)) {
+    out.push({ c: 'L', p: pts[pts.length - 1] });
+  } else {
+    fitCubic(pts, t1, t2, tol, out);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Ring → commands
+// ---------------------------------------------------------------------------
+
+function turnAngle(a: Pt, b: Pt, c: Pt): number {
+  const e1 = sub(b, a), e2 = sub(c, b);
+  return Math.abs(Math.atan2(cross(e1, e2), dot(e1, e2)));
+}
+
+function polylineCommands(pts: Pt[], out: Command[], closed = true): void {
+  out.push({ c: 'M', p: pts[0] });
+  for (let i = 1; i < pts.length; i++) out.push({ c: 'L', p: pts[i] });
+  if (closed) out.push({ c: 'Z' });
+}
+
+// Arc through run[0..] around centre c, split in two when close to a half
+// turn so the large-arc flag is never ambiguous
+function arcCommands(run: Pt[], c: Pt, r: number, out: Command[]): void {
+  let total = 0;
+  const angles = [0];
+  for (let i = 1; i < run.length; i++) {
+    const v1 = sub(run[i - 1], c), v2 = sub(run[i], c);
+    total += Math.atan2(cross(v1, v2), dot(v1, v2));
+    angles.push(total);
+  }
+  const sweep = total > 0 ? 1 : 0;
+  if (Math.abs(total) > (Math.PI * 17) / 18 && run.length > 2) {
+    let mid = 1;
+    for (let i = 1; i < run.length - 1; i++) {
+      if (Math.abs(angles[i] - total / 2) < Math.abs(angles[mid] - total / 2)) mid = i;
+    }
+    out.push({ c: 'A', r, large: 0, sweep, p: run[mid] });
+    out.push({ c: 'A', r, large: Math.abs(total - angles[mid]) > Math.PI ? 1 : 0, sweep, p: run[run.length - 1] });
+    return;
+  }
+  out.push({ c: 'A', r, large: Math.abs(total) > Math.PI ? 1 : 0, sweep, p: run[run.length - 1] });
+}
+
+function curveCommands(
+  ring: Pt[], sc: number, shift: Pt, tol: number, arcs: ArcIndex | null, out: Command[], closed = true,
+): void {
+  const n = ring.length;
+  const pts: Pt[] = ring.map((p) => [(p[0] + shift[0]) / sc, (p[1] + shift[1]) / sc]);
+  if (n < 3) { polylineCommands(pts, out, closed); return; }
+
+  // Arc id of the segment starting at each vertex (-1 = not on a join arc)
+  const arcOf = (i: number): number => (arcs ? arcs.byPoint.get(ring[i][0] + ',' + ring[i][1]) ?? -1 : -1);
+  const segArc: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const a = arcOf(i);
+    segArc.push(a >= 0 && a === arcOf((i + 1) % n) && (closed || i < n - 1) ? a : -1);
+  }
+
+  // Vertices where the fit must break: corners, arc boundaries and the ends
+  // of an open line
+  const isBreak = (i: number): boolean => {
+    if (!closed && (i === 0 || i === n - 1)) return true;
+    const prev = segArc[(i - 1 + n) % n], next = segArc[i];
+    if (prev !== next) return true;
+    return next < 0 && turnAngle(pts[(i - 1 + n) % n], pts[i], pts[(i + 1) % n]) > CORNER_ANGLE;
+  };
+
+  let start = -1;
+  for (let i = 0; i < n; i++) if (isBreak(i)) { start = i; break; }
+
+  if (start < 0) {
+    // Smooth closed ring: fit once around, with matching end tangents
+    const t = norm(sub(pts[1], pts[n - 1]));
+    out.push({ c: 'M', p: pts[0] });
+    fitSpan([...pts, pts[0]], t, scale2(t, -1), tol, out);
+    out.push({ c: 'Z' });
+    return;
+  }
+
+  out.push({ c: 'M', p: pts[start] });
+  let i = start;
+  do {
+    // Collect the piece running from break i to the next break
+    const piece: Pt[] = [pts[i]];
+    const arc = segArc[i];
+    let j = i;
+    do {
+      j = (j + 1) % n;
+      piece.push(pts[j]);
+    } while (j !== start && !isBreak(j));
+
+    if (arc >= 0 && piece.length >= 3) {
+      const { center, radius } = arcs!.arcs[arc];
+      arcCommands(piece, [(center[0] + shift[0]) / sc, (center[1] + shift[1]) / sc], radius / sc, out);
+    } else {
+      // End tangents: one-sided at a corner, central where the curve is smooth
+      const t1 = norm(sub(piece[1], piece[0]));
+      const t2 = norm(sub(piece[piece.length - 2], piece[piece.length - 1]));
+      fitSpan(piece, t1, t2, tol, out);
+    }
+    i = j;
+  } while (closed ? i !== start : i !== n - 1);
+  if (!closed) return;
+
+  // Z draws the closing line itself
+  const lastCmd = out[out.length - 1];
+  if (lastCmd.c === 'L') out.pop();
+  out.push({ c: 'Z' });
+}
+
+// ---------------------------------------------------------------------------
+// Arc-length resampling
+//
+// A fixed vertex count per ring lets other point-based tweens (MorphSVG,
+// stroke-dasharray effects) interpolate between frames without popping.
+// ---------------------------------------------------------------------------
+
+/**
+ * `count` points spaced evenly by arc length along pts, starting at pts[0]:
+ * round the ring and back to the start when closed, end to end when open.
+ */
+export function resamplePoints(pts: Pt[], count: number, closed = true): Pt[] {
+  const n = pts.length;
+  const segments = closed ? n : n - 1;
+  const lengths: number[] = [];
+  let total = 0;
+  for (let i = 0; i < segments; i++) {
+    const l = len(sub(pts[(i + 1) % n], pts[i]));
+    lengths.push(l);
+    total += l;
+  }
+  if (total === 0) return Array.from({ length: count }, () => pts[0]);
+
+  const step = total / (closed || count < 2 ? count : count - 1);
+  const result: Pt[] = [];
+  let seg = 0, walked = 0;
+  for (let k = 0; k < count; k++) {
+    const target = k * step;
+    while (seg < segments - 1 && walked + lengths[seg] < target) walked += lengths[seg++];
+    const t = lengths[seg] > 0 ? Math.min((target - walked) / lengths[seg], 1) : 0;
+    const a = pts[seg], b = pts[(seg + 1) % n];
+    result.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Vertex budget
+//
+// Outlines over the budget are simplified (Ramer–Douglas–Peucker) with a
+// tolerance that doubles until they fit, so the vertices dropped first are
+// the ones that change the outline least.
+// ---------------------------------------------------------------------------
+
+// Keeps the points between pts[from] and pts[to] that stray more than tol
+// (a stack rather than recursion, for rings of many thousand points)
+function simplifySpan(pts: Pt[], from: number, to: number, tol: number, keep: boolean[]): void {
+  const spans: Array<[number, number]> = [[from, to]];
+  while (spans.length > 0) {
+    const [a, b] = spans.pop()!;
+    let worst = -1, worstDist = tol;
+    for (let i = a + 1; i < b; i++) {
+      const d = chordDistance(pts[i], pts[a], pts[b]);
+      if (d > worstDist) { worst = i; worstDist = d; }
+    }
+    if (worst < 0) continue;
+    keep[worst] = true;
+    spans.push([a, worst], [worst, b]);
+  }
+}
+
+// A closed ring is split at its first point and the point farthest from it
+function simplify(pts: Pt[], tol: number, closed: boolean): Pt[] {
+  const n = pts.length;
+  if (n <= 3) return pts;
+  const keep = pts.map(() => false);
+  keep[0] = true;
+  if (closed) {
+    let far = 1;
+    for (let i = 2; i < n; i++) if (len(sub(pts[i], pts[0])) > len(sub(pts[far], pts[0]))) far = i;
+    keep[far] = true;
+    simplifySpan(pts, 0, far, tol, keep);
+    simplifySpan([...pts, pts[0]], far, n, tol, keep);
+  } else {
+    keep[n - 1] = true;
+    simplifySpan(pts, 0, n - 1, tol, keep);
+  }
+  return pts.filter((_, i) => keep[i]);
+}
+
+/**
+ * Lines simplified to `max` vertices in all, or as close to it as keeping
+ * each line's shape allows; unchanged when they already fit.
+ */
+export function fitVertexBudget(lines: Pt[][], max: number, closed: boolean[]): Pt[][] {
+  let total = lines.reduce((n, pts) => n + pts.length, 0);
+  if (total <= max) return lines;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const pts of lines) {
+    for (const [x, y] of pts) {
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    }
+  }
+  const size = Math.max(maxX - minX, maxY - minY);
+  let result = lines;
+  for (let tol = size * 1e-4; total > max && tol < size; tol *= 2) {
+    result = lines.map((pts, i) => simplify(pts, tol, closed[i]));
+    total = result.reduce((n, pts) => n + pts.length, 0);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Number / command formatting
+// ---------------------------------------------------------------------------
+
+function formatNumber(v: number, precision: number, compact: boolean): string {
+  const s = v.toFixed(precision);
+  if (!compact) return s;
+  let t = s.includes('.') ? s.replace(/0+$/, '').replace(/\.$/, '') : s;
+  if (t === '-0') t = '0';
+  return t.replace(/^(-?)0\./, '$1.');
+}
+
+// Appends a number, adding a separator only where the syntax needs one
+function appendNumber(d: string, num: string, compact: boolean): string {
+  if (!compact) return d + ' ' + num;
+  const prevChar = d[d.length - 1];
+  if (/[a-zA-Z]/.test(prevChar) || num[0] === '-') return d + num;
+  if (num[0] === '.') {
+    // ".5" can follow a number that already has a decimal point
+    const m = /[-\d.]+$/.exec(d);
+    if (m && m[0].includes('.')) return d + num;
+  }
+  return d + ' ' + num;
+}
+
+function formatCommands(cmds: Command[], fmt: PathFormat): string {
+  const { precision, compact } = fmt;
+  const round = (v: number): number => Number(v.toFixed(precision));
+  let d = '';
+  let cur: Pt = [0, 0];
+  let start: Pt = [0, 0];
+  let last = '';
+
+  const emit = (letter: string, nums: Array<number | string>) => {
+    if (!compact) {
+      d += (d ? ' ' : '') + letter;
+    } else if (letter !== last || letter === 'm' || letter === 'M') {
+      d += letter;
+    }
+    last = letter;
+    for (const v of nums) {
+      d = appendNumber(d, typeof v === 'string' ? v : formatNumber(v, precision, compact), compact);
+    }
+  };
+
+  for (const cmd of cmds) {
+    if (cmd.c === 'Z') {
+      emit(compact ? 'z' : 'Z', []);
+      cur = start;
+      continue;
+    }
+    const p: Pt = [round(cmd.p[0]), round(cmd.p[1])];
+    const rel = (q: Pt): Pt => (compact ? [round(q[0]) - cur[0], round(q[1]) - cur[1]] : [round(q[0]), round(q[1])]);
+    const dp = rel(p);
+
+    if (cmd.c === 'M') {
+      emit(compact && d ? 'm' : 'M', dp);
+      start = p;
+    } else if (cmd.c === 'L') {
+      // A fixed point count keeps even the segments that round to nothing
+      if (compact && dp[0] === 0 && dp[1] === 0 && fmt.pointCount === null) continue;
+      if (compact && dp[1] === 0) emit('h', [dp[0]]);
+      else if (compact && dp[0] === 0) emit('v', [dp[1]]);
+      else emit(compact ? 'l' : 'L', dp);
+    } else if (cmd.c === 'C') {
+      emit(compact ? 'c' : 'C', [...rel(cmd.c1), ...rel(cmd.c2), ...dp]);
+    } else {
+      const r = formatNumber(cmd.r, precision, compact);
+      const flags = compact ? `${cmd.large}${cmd.sweep}` : `${cmd.large} ${cmd.sweep}`;
+      emit(compact ? 'a' : 'A', [r, r, '0', flags, ...dp]);
+    }
+    cur = p;
+  }
+  return d;
+}
+
+/**
+ * Writes offset rings (scaled integer coordinates) as SVG path data.
+ * `shift` is added to every point before writing, in scaled units. With a
+ * point count, each ring is resampled from its first point and written as a
+ * polyline.
+ */
+export function ringsToPathData(
+  rings: Pt[][],
+  sc: number,
+  fmt: PathFormat = DEFAULT_FORMAT,
+  shift: Pt = [0, 0],
+  arcs: ArcIndex | null = null,
+): string {
+  if (fmt.maxVertices !== null && fmt.pointCount === null) {
+    const fitted = fitVertexBudget(rings, fmt.maxVertices, rings.map(() => true));
+    // Simplified, the round joins lose the points that marked them
+    if (fitted !== rings) arcs = null;
+    rings = fitted;
+  }
+  const cmds: Command[] = [];
+  for (const ring of rings) {
+    if (ring.length === 0) continue;
+    if (fmt.pointCount !== null) {
+      polylineCommands(resamplePoints(ring, fmt.pointCount).map((p) => [(p[0] + shift[0]) / sc, (p[1] + shift[1]) / sc]), cmds);
+    } else if (fmt.curveTolerance !== null && fmt.curveTolerance > 0) {
+      curveCommands(ring, sc, shift, fmt.curveTolerance, arcs, cmds);
+    } else {
+      polylineCommands(ring.map((p) => [(p[0] + shift[0]) / sc, (p[1] + shift[1]) / sc]), cmds);
+    }
+  }
+  return formatCommands(cmds, fmt);
+}
+
+/**
+ * Writes float polylines as SVG path data, ending the closed ones with Z.
+ * With a curve tolerance, each line is fitted with cubic Béziers; with a
+ * point count, resampled to that many vertices; with a vertex budget,
+ * simplified to fit it.
+ */
+export function polylinesToPathData(lines: Polyline[], fmt: PathFormat = DEFAULT_FORMAT): string {
+  if (fmt.maxVertices !== null && fmt.pointCount === null) {
+    const fitted = fitVertexBudget(lines.map((line) => line.points), fmt.maxVertices, lines.map((line) => line.closed));
+    lines = lines.map((line, i) => ({ ...line, points: fitted[i] }));
+  }
+  const cmds: Command[] = [];
+  for (const line of lines) {
+    const { closed } = line;
+    let points = line.points;
+    // Z draws the way back to the start, so an explicit closing point would
+    // only add a zero-length segment
+    while (closed && points.length > 1 && points[points.length - 1][0] === points[0][0] &&
+           points[points.length - 1][1] === points[0][1]) {
+      points = points.slice(0, -1);
+    }
+    if (points.length === 0) continue;
+    if (fmt.pointCount !== null) {
+      polylineCommands(resamplePoints(points, fmt.pointCount, closed), cmds, closed);
+    } else if (fmt.curveTolerance !== null && fmt.curveTolerance > 0) {
+      curveCommands(points, 1, [0, 0], fmt.curveTolerance, null, cmds, closed);
+    } else {
+      polylineCommands(points, cmds, closed);
+    }
+  }
+  return formatCommands(cmds, fmt);
+}
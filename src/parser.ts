@@ -0,0 +1,361 @@
+import type { Pt } from './geometry';
+
+// ---------------------------------------------------------------------------
+// SVG path parser (port of parse_svg_to_lyon from lib.rs)
+// Handles M, L, H, V, C, S, Q, T, A, Z and their relative variants
+// Returns the subpaths with their segments, plus the first syntax error
+// ---------------------------------------------------------------------------
+
+interface ParseState {
+  src: string;
+  pos: number;
+}
+
+/**
+ * What is wrong with path data (mirrors PathError in the Rust engine):
+ * - `EmptyPath`: there are no drawing commands at all
+ * - `ExpectedCommand`: data where a command letter should be, or a command
+ *   other than a moveto to start with
+ * - `UnknownCommand`: a letter that isn't a path command
+ * - `ExpectedNumber`: a missing or malformed coordinate
+ * - `ExpectedFlag`: an arc flag other than a single `0` or `1`
+ */
+export type ParseErrorKind = 'EmptyPath' | 'ExpectedCommand' | 'UnknownCommand' | 'ExpectedNumber' | 'ExpectedFlag';
+
+/** First syntax error in path data; parsing stops there, as in browsers. */
+export interface ParseError {
+  kind: ParseErrorKind;
+  message: string;
+  /** Index into the path data string */
+  position: number;
+  /** The command being read when it happened, as written (e.g. 'l'), or null */
+  command: string | null;
+}
+
+function skipSep(s: ParseState): void {
+  while (s.pos < s.src.length) {
+    const ch = s.src[s.pos];
+    if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f' || ch === ',') {
+      s.pos++;
+    } else {
+      break;
+    }
+  }
+}
+
+function isDigit(ch: string | undefined): boolean {
+  return ch !== undefined && ch >= '0' && ch <= '9';
+}
+
+function skipDigits(s: ParseState): number {
+  const start = s.pos;
+  while (isDigit(s.src[s.pos])) s.pos++;
+  return s.pos - start;
+}
+
+// Reads one number of the SVG grammar, which needs no separator before a
+// sign or a second decimal point: "-1-2" is -1 -2 and "1.5.5" is 1.5 0.5.
+// Returns NaN, consuming nothing, when there is no number here.
+function parseNumber(s: ParseState): number {
+  skipSep(s);
+  const start = s.pos;
+  if (s.src[s.pos] === '-' || s.src[s.pos] === '+') s.pos++;
+  let digits = skipDigits(s);
+  if (s.src[s.pos] === '.') {
+    s.pos++;
+    digits += skipDigits(s);
+  }
+  if (digits === 0) {
+    s.pos = start;
+    return NaN;
+  }
+  // An exponent only counts with digits after it
+  const mantissaEnd = s.pos;
+  if (s.src[s.pos] === 'e' || s.src[s.pos] === 'E') {
+    s.pos++;
+    if (s.src[s.pos] === '-' || s.src[s.pos] === '+') s.pos++;
+    if (skipDigits(s) === 0) s.pos = mantissaEnd;
+  }
+  return parseFloat(s.src.slice(start, s.pos));
+}
+
+// Arc flags are a single '0' or '1' and may be written without separators
+// ("a1 1 0 011 1"), so they can't go through parseNumber.
+function parseFlag(s: ParseState): number {
+  skipSep(s);
+  const ch = s.src[s.pos];
+  if (ch === '0' || ch === '1') {
+    s.pos++;
+    return ch === '1' ? 1 : 0;
+  }
+  return NaN;
+}
+
+// ---------------------------------------------------------------------------
+// Elliptical arc → cubic Béziers (SVG 1.1 implementation notes, F.6.5/F.6.6)
+// ---------------------------------------------------------------------------
+
+function arcToCubics(
+  p0: Pt, rx: number, ry: number, rotation: number,
+  largeArc: number, sweep: number, p1: Pt,
+): Pt[][] {
+  if (p0[0] === p1[0] && p0[1] === p1[1]) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  // Zero radius: treat as a straight line
+  if (rx === 0 || ry === 0) return [[p0, p1, p1]];
+
+  const phi = (rotation * Math.PI) / 180;
+  const cosPhi = Math.cos(phi), sinPhi = Math.sin(phi);
+
+  // Step 1: midpoint in the rotated frame
+  const dx2 = (p0[0] - p1[0]) / 2, dy2 = (p0[1] - p1[1]) / 2;
+  const x1p =  cosPhi * dx2 + sinPhi * dy2;
+  const y1p = -sinPhi * dx2 + cosPhi * dy2;
+
+  // Scale radii up if they can't span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    const sl = Math.sqrt(lambda);
+    rx *= sl;
+    ry *= sl;
+  }
+
+  // Step 2: centre in the rotated frame
+  const rx2 = rx * rx, ry2 = ry * ry;
+  const num = rx2 * ry2 - rx2 * y1p * y1p - ry2 * x1p * x1p;
+  const den = rx2 * y1p * y1p + ry2 * x1p * x1p;
+  let coef = Math.sqrt(Math.max(0, num / den));
+  if (largeArc === sweep) coef = -coef;
+  const cxp =  coef * (rx * y1p) / ry;
+  const cyp = -coef * (ry * x1p) / rx;
+
+  // Step 3: centre in user space
+  const cx = cosPhi * cxp - sinPhi * cyp + (p0[0] + p1[0]) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (p0[1] + p1[1]) / 2;
+
+  // Step 4: start angle and sweep on the unit circle
+  const ux = (x1p - cxp) / rx, uy = (y1p - cyp) / ry;
+  const vx = (-x1p - cxp) / rx, vy = (-y1p - cyp) / ry;
+  const theta1 = Math.atan2(uy, ux);
+  let dTheta = Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  if (!sweep && dTheta > 0) dTheta -= 2 * Math.PI;
+  if (sweep && dTheta < 0) dTheta += 2 * Math.PI;
+
+  // Split into pieces of at most 90° and approximate each with one cubic
+  const count = Math.max(1, Math.ceil(Math.abs(dTheta) / (Math.PI / 2) - 1e-9));
+  const delta = dTheta / count;
+  const k = (4 / 3) * Math.tan(delta / 4);
+
+  const point = (a: number, dist: number, sign: number): Pt => {
+    // Point on the ellipse at angle a, displaced along its tangent by dist
+    const ca = Math.cos(a), sa = Math.sin(a);
+    const ex = rx * (ca - sign * dist * sa);
+    const ey = ry * (sa + sign * dist * ca);
+    return [cx + cosPhi * ex - sinPhi * ey, cy + sinPhi * ex + cosPhi * ey];
+  };
+
+  const curves: Pt[][] = [];
+  for (let i = 0; i < count; i++) {
+    const a1 = theta1 + delta * i;
+    const a2 = a1 + delta;
+    const to: Pt = i === count - 1 ? p1 : point(a2, 0, 1);
+    curves.push([point(a1, k, 1), point(a2, k, -1), to]);
+  }
+  return curves;
+}
+
+/**
+ * One drawing command of a subpath, in absolute coordinates. H/V become lines;
+ * S/T, arcs and quadratic curves are reduced to C and Q segments.
+ */
+export interface Segment {
+  type: 'M' | 'L' | 'C' | 'Q';
+  pts: Pt[]; // for M/L: [to]; for C: [c1, c2, to]; for Q: [ctrl, to]
+}
+
+/** A run of segments starting at an M, closed when it ended with Z. */
+export interface Subpath {
+  segs: Segment[];
+  closed: boolean;
+}
+
+export interface ParseResult {
+  subpaths: Subpath[];
+  error: ParseError | null;
+}
+
+// Number of arguments each command takes, and which of them are arc flags
+const ARITY: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7 };
+const FLAG_ARGS = [3, 4];
+
+function isCommand(ch: string): boolean {
+  return (ch >= 'A' && ch <= 'Z') || (ch >= 'a' && ch <= 'z');
+}
+
+// Reads the arguments of one command, or the error at the first malformed one
+function readArgs(s: ParseState, cmd: string): number[] | ParseError {
+  const upper = cmd.toUpperCase();
+  const args: number[] = [];
+  for (let i = 0; i < ARITY[upper]; i++) {
+    skipSep(s);
+    const position = s.pos;
+    const flag = upper === 'A' && FLAG_ARGS.includes(i);
+    const v = flag ? parseFlag(s) : parseNumber(s);
+    if (!isFinite(v)) {
+      const found = position < s.src.length ? `'${s.src[position]}'` : 'the end of the data';
+      return {
+        kind: flag ? 'ExpectedFlag' : 'ExpectedNumber',
+        message: `Expected ${flag ? 'an arc flag (0 or 1)' : 'a number'} for argument ${i + 1} of '${cmd}', got ${found}`,
+        position,
+        command: cmd,
+      };
+    }
+    args.push(v);
+  }
+  return args;
+}
+
+export function parseSvgPath(pathData: string): ParseResult {
+  const s: ParseState = { src: pathData, pos: 0 };
+  const subpaths: Subpath[] = [];
+  let current: Subpath | null = null;
+  let cx = 0, cy = 0; // current position
+  let cmd = '';
+  // Last control point of the previous C/S or Q/T segment, for reflection
+  let lastCubic: Pt | null = null;
+  let lastQuad: Pt | null = null;
+  let error: ParseError | null = null;
+
+  const ensureCurrent = (): Subpath => {
+    if (!current) { current = { segs: [{ type: 'M', pts: [[cx, cy]] }], closed: false }; subpaths.push(current); }
+    return current;
+  };
+
+  skipSep(s);
+  while (s.pos < s.src.length) {
+    const ch = s.src[s.pos];
+    if (isCommand(ch)) {
+      if (!(ch.toUpperCase() in ARITY) && ch !== 'Z' && ch !== 'z') {
+        error = { kind: 'UnknownCommand', message: `Unknown command '${ch}'`, position: s.pos, command: null };
+        break;
+      }
+      // Path data starts with a moveto; browsers draw nothing of data that doesn't
+      if (subpaths.length === 0 && ch !== 'M' && ch !== 'm') {
+        error = { kind: 'ExpectedCommand', message: `Expected 'M' or 'm' to start the path, got '${ch}'`, position: s.pos, command: null };
+        break;
+      }
+      cmd = ch;
+      s.pos++;
+      skipSep(s);
+    } else if (cmd === '') {
+      error = { kind: 'ExpectedCommand', message: `Expected a command, got '${ch}'`, position: s.pos, command: null };
+      break;
+    }
+
+    if (cmd === 'Z' || cmd === 'z') {
+      if (current) {
+        current.closed = true;
+        // Closing returns the current point to the subpath start, which
+        // relative commands after Z are measured from; a drawing command
+        // with no M after Z starts a new subpath there
+        [cx, cy] = current.segs[0].pts[0];
+        current = null;
+      }
+      lastCubic = null;
+      lastQuad = null;
+      cmd = '';
+      skipSep(s);
+      continue;
+    }
+
+    const args = readArgs(s, cmd);
+    if (!Array.isArray(args)) {
+      error = args;
+      break;
+    }
+
+    const prevCubic = lastCubic, prevQuad = lastQuad;
+    lastCubic = null;
+    lastQuad = null;
+    const rel = cmd === cmd.toLowerCase();
+    // Absolute point from argument pair i
+    const at = (i: number): Pt => (rel ? [cx + args[i], cy + args[i + 1]] : [args[i], args[i + 1]]);
+
+    switch (cmd.toUpperCase()) {
+      case 'M': {
+        const to = at(0);
+        current = { segs: [{ type: 'M', pts: [to] }], closed: false };
+        subpaths.push(current);
+        [cx, cy] = to;
+        // Subsequent coords after M are implicit L
+        cmd = rel ? 'l' : 'L';
+        break;
+      }
+      case 'L': {
+        const to = at(0);
+        ensureCurrent().segs.push({ type: 'L', pts: [to] });
+        [cx, cy] = to;
+        break;
+      }
+      case 'H': {
+        const x = rel ? cx + args[0] : args[0];
+        ensureCurrent().segs.push({ type: 'L', pts: [[x, cy]] });
+        cx = x;
+        break;
+      }
+      case 'V': {
+        const y = rel ? cy + args[0] : args[0];
+        ensureCurrent().segs.push({ type: 'L', pts: [[cx, y]] });
+        cy = y;
+        break;
+      }
+      case 'C': {
+        const c1 = at(0), c2 = at(2), to = at(4);
+        ensureCurrent().segs.push({ type: 'C', pts: [c1, c2, to] });
+        [cx, cy] = to;
+        lastCubic = c2;
+        break;
+      }
+      case 'S': {
+        // First control point reflects the previous C/S one, else the current point
+        const c1: Pt = prevCubic ? [2 * cx - prevCubic[0], 2 * cy - prevCubic[1]] : [cx, cy];
+        const c2 = at(0), to = at(2);
+        ensureCurrent().segs.push({ type: 'C', pts: [c1, c2, to] });
+        [cx, cy] = to;
+        lastCubic = c2;
+        break;
+      }
+      case 'Q': {
+        const ctrl = at(0), to = at(2);
+        ensureCurrent().segs.push({ type: 'Q', pts: [ctrl, to] });
+        [cx, cy] = to;
+        lastQuad = ctrl;
+        break;
+      }
+      case 'T': {
+        // Control point reflects the previous Q/T one, else the current point
+        const ctrl: Pt = prevQuad ? [2 * cx - prevQuad[0], 2 * cy - prevQuad[1]] : [cx, cy];
+        const to = at(0);
+        ensureCurrent().segs.push({ type: 'Q', pts: [ctrl, to] });
+        [cx, cy] = to;
+        lastQuad = ctrl;
+        break;
+      }
+      case 'A': {
+        const [rx, ry, rot, largeArc, sweep] = args;
+        const to = at(5);
+        const sp = ensureCurrent();
+        for (const pts of arcToCubics([cx, cy], rx, ry, rot, largeArc, sweep, to)) {
+          sp.segs.push({ type: 'C', pts });
+        }
+        [cx, cy] = to;
+        break;
+      }
+    }
+
+    skipSep(s);
+  }
+
+  return { subpaths, error };
+}
@@ -0,0 +1,306 @@
+import type { OffsetProfile } from './types';
+import { JoinType, EndType } from './types';
+import type { AnchorMode } from './anchor';
+
+// ---------------------------------------------------------------------------
+// Basic SVG shapes (<circle>, <ellipse>, <rect>, <polygon>, <polyline>, <line>)
+//
+// The offset engine only understands path data, so every shape is converted
+// to an equivalent `d` string. Circles and rects whose offset is still a
+// circle / rect are updated through their native attributes instead; every
+// other shape is replaced in the DOM by a <path> proxy for the duration of
+// the tween.
+// ---------------------------------------------------------------------------
+
+export type ShapeElement =
+  | SVGCircleElement
+  | SVGEllipseElement
+  | SVGRectElement
+  | SVGPolygonElement
+  | SVGPolylineElement
+  | SVGLineElement;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Attributes that describe geometry and must not be copied onto the proxy
+const GEOMETRY_ATTRS = ['cx', 'cy', 'r', 'rx', 'ry', 'x', 'y', 'width', 'height', 'points', 'x1', 'y1', 'x2', 'y2'];
+
+export function isShapeElement(el: unknown): el is ShapeElement {
+  return (
+    el instanceof SVGCircleElement ||
+    el instanceof SVGEllipseElement ||
+    el instanceof SVGRectElement ||
+    el instanceof SVGPolygonElement ||
+    el instanceof SVGPolylineElement ||
+    el instanceof SVGLineElement
+  );
+}
+
+// Resolved length of a geometry attribute. SVGAnimatedLength resolves units
+// and percentages when the element is rendered; the raw attribute is the
+// fallback for detached elements.
+function length(el: ShapeElement, name: string): number {
+  const anim: unknown = Reflect.get(el, name);
+  if (anim instanceof SVGAnimatedLength) return anim.baseVal.value;
+  return parseFloat(el.getAttribute(name) ?? '') || 0;
+}
+
+interface CircleGeometry { cx: number; cy: number; r: number; }
+interface RectGeometry { x: number; y: number; w: number; h: number; rx: number; ry: number; }
+
+function rectGeometry(el: ShapeElement): RectGeometry {
+  const w = length(el, 'width');
+  const h = length(el, 'height');
+  // A missing rx/ry takes the other one's value ("auto"); both are clamped
+  // to half the side they round
+  const rxAttr = el.hasAttribute('rx') ? length(el, 'rx') : null;
+  const ryAttr = el.hasAttribute('ry') ? length(el, 'ry') : null;
+  const rx = Math.min(Math.abs(rxAttr ?? ryAttr ?? 0), w / 2);
+  const ry = Math.min(Math.abs(ryAttr ?? rxAttr ?? 0), h / 2);
+  return { x: length(el, 'x'), y: length(el, 'y'), w, h, rx, ry };
+}
+
+function pointList(el: ShapeElement): number[] {
+  const src = el.getAttribute('points') ?? '';
+  const nums = src.trim().split(/[\s,]+/).filter(Boolean).map(Number);
+  // An odd trailing coordinate is ignored, as browsers do
+  return nums.length % 2 === 0 ? nums : nums.slice(0, -1);
+}
+
+function ellipsePath(cx: number, cy: number, rx: number, ry: number): string {
+  return `M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx + rx} ${cy} ` +
+         `A ${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`;
+}
+
+/** Converts a basic shape to path data. Returns null for empty geometry. */
+export function shapeToPathData(el: ShapeElement): string | null {
+  if (el instanceof SVGCircleElement) {
+    const r = length(el, 'r');
+    if (r <= 0) return null;
+    return ellipsePath(length(el, 'cx'), length(el, 'cy'), r, r);
+  }
+
+  if (el instanceof SVGEllipseElement) {
+    const rx = length(el, 'rx'), ry = length(el, 'ry');
+    if (rx <= 0 || ry <= 0) return null;
+    return ellipsePath(length(el, 'cx'), length(el, 'cy'), rx, ry);
+  }
+
+  if (el instanceof SVGRectElement) {
+    const { x, y, w, h, rx, ry } = rectGeometry(el);
+    if (w <= 0 || h <= 0) return null;
+    if (rx === 0 || ry === 0) return `M ${x} ${y} H ${x + w} V ${y + h} H ${x} Z`;
+    return `M ${x + rx} ${y} H ${x + w - rx} A ${rx} ${ry} 0 0 1 ${x + w} ${y + ry} ` +
+           `V ${y + h - ry} A ${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h} ` +
+           `H ${x + rx} A ${rx} ${ry} 0 0 1 ${x} ${y + h - ry} ` +
+           `V ${y + ry} A ${rx} ${ry} 0 0 1 ${x + rx} ${y} Z`;
+  }
+
+  if (el instanceof SVGLineElement) {
+    return `M ${length(el, 'x1')} ${length(el, 'y1')} L ${length(el, 'x2')} ${length(el, 'y2')}`;
+  }
+
+  // <polygon> / <polyline>
+  const nums = pointList(el);
+  if (nums.length < 4) return null;
+  let d = `M ${nums[0]} ${nums[1]}`;
+  for (let i = 2; i < nums.length; i += 2) d += ` L ${nums[i]} ${nums[i + 1]}`;
+  return el instanceof SVGPolygonElement ? d + ' Z' : d;
+}
+
+// ---------------------------------------------------------------------------
+// Shape binding: native attribute updates or a swapped-in <path> proxy
+// ---------------------------------------------------------------------------
+
+export interface ShapeBinding {
+  el: ShapeElement;
+  /** Offset through the shape's own attributes instead of a proxy */
+  native: boolean;
+  /** Original attribute values (null = absent), restored on kill */
+  saved: Record<string, string | null>;
+  savedVisibility: string;
+  /** The original geometry as path data, offset when not native */
+  pathData: string;
+  /** Geometry read before the first frame, for native updates */
+  base: CircleGeometry | RectGeometry;
+  proxy: SVGPathElement | null;
+}
+
+// Bindings by element, kept until the element is restored
+const bindings = new WeakMap<Element, ShapeBinding>();
+
+/** The binding tweens share on `el`, if one has been made. */
+export function shapeBinding(el: Element): ShapeBinding | undefined {
+  return bindings.get(el);
+}
+
+/** Offset and corner settings at one end of a tween */
+export interface NativeEnd {
+  offset: number;
+  profile: OffsetProfile | null;
+  joinType: JoinType;
+  endType: EndType;
+  roundness: number | null;
+  miterLimit: number;
+  anchorX: number | null;
+  anchorY: number | null;
+  anchor: AnchorMode | null;
+}
+
+// True when offsetting by every end of the tween keeps the shape a circle or
+// a rect, so only its attributes need to change. Inward offsets of a rect
+// always stay rects; outward ones keep sharp corners only with a miter join
+// that reaches the 90° corner (1/sin 45°), and round corners with a round join.
+function supportsNative(el: ShapeElement, ends: NativeEnd[]): boolean {
+  // Outlines and profiles change the shape into something else
+  if (!ends.every(({ profile, endType }) => profile === null && endType === EndType.Polygon)) return false;
+  // Only bounding-box fractions anchor the attributes directly
+  if (!ends.every(({ anchorX, anchorY, anchor }) => anchorX === null && anchorY === null && anchor === null)) return false;
+  if (el instanceof SVGCircleElement) return true;
+  if (!(el instanceof SVGRectElement)) return false;
+
+  const { rx, ry } = rectGeometry(el);
+  if (rx !== ry) return false;
+  if (rx > 0) return true;
+  return ends.every(({ offset, joinType, roundness, miterLimit }) =>
+    offset <= 0 ||
+    (roundness === null && joinType === JoinType.Round) ||
+    ((roundness !== null || joinType === JoinType.Miter) && miterLimit >= Math.SQRT2));
+}
+
+/**
+ * Binds a shape for offsetting. Tweens on the same element share the binding,
+ * so its proxy and original attributes survive until the element is restored.
+ * `allowNative` = false forces the proxy (e.g. under a non-uniform transform).
+ * Returns null when the shape has no geometry.
+ */
+export function bindShape(el: ShapeElement, ends: NativeEnd[], allowNative = true): ShapeBinding | null {
+  const existing = bindings.get(el);
+  if (existing) {
+    if (existing.native && !(allowNative && supportsNative(el, ends))) {
+      // Leave the element untouched behind the proxy from now on
+      restoreAttributes(existing);
+      existing.native = false;
+    }
+    return existing;
+  }
+
+  const pathData = shapeToPathData(el);
+  if (!pathData) return null;
+
+  const saved: Record<string, string | null> = {};
+  for (const name of GEOMETRY_ATTRS) saved[name] = el.getAttribute(name);
+
+  const binding: ShapeBinding = {
+    el,
+    native: allowNative && supportsNative(el, ends),
+    saved,
+    savedVisibility: el.style.visibility,
+    pathData,
+    base: el instanceof SVGCircleElement
+      ? { cx: length(el, 'cx'), cy: length(el, 'cy'), r: length(el, 'r') }
+      : rectGeometry(el),
+    proxy: null,
+  };
+  bindings.set(el, binding);
+  return binding;
+}
+
+/** Element the offset result is written to, swapping in the proxy on first use. */
+export function outputElement(binding: ShapeBinding): SVGElement {
+  if (binding.native) return binding.el;
+  if (!binding.proxy) {
+    const proxy = createPathLike(binding.el);
+    binding.el.replaceWith(proxy);
+    binding.proxy = proxy;
+  }
+  return binding.proxy;
+}
+
+/** A new, detached <path> carrying every non-geometry attribute of `el`. */
+export function createPathLike(el: SVGElement, skip: string[] = []): SVGPathElement {
+  const path = (el.ownerDocument ?? document).createElementNS(SVG_NS, 'path') as SVGPathElement;
+  for (const attr of Array.from(el.attributes)) {
+    if (!GEOMETRY_ATTRS.includes(attr.name) && !skip.includes(attr.name)) path.setAttribute(attr.name, attr.value);
+  }
+  return path;
+}
+
+function fmt(v: number): string { return v.toFixed(2); }
+
+// Keeps the originX / originY point of the bounding box fixed while it grows
+// by `offset` on every side (port of the anchor logic in offsetSvgPath).
+function anchorShift(offset: number, origin: number | null): number {
+  return origin === null ? 0 : offset * (1 - 2 * origin);
+}
+
+/**
+ * Offsets a circle or rect through its attributes.
+ * Returns false when the shape has collapsed.
+ */
+export function applyNativeOffset(
+  binding: ShapeBinding,
+  offset: number,
+  joinType: JoinType,
+  roundness: number | null,
+  originX: number | null,
+  originY: number | null,
+): boolean {
+  const { el, base } = binding;
+  // An offset worked out as NaN or infinite leaves the shape as drawn
+  if (!isFinite(offset)) offset = 0;
+  const dx = anchorShift(offset, originX);
+  const dy = anchorShift(offset, originY);
+
+  if ('r' in base) {
+    const r = base.r + offset;
+    if (r <= 0) return false;
+    el.setAttribute('r', fmt(r));
+    el.setAttribute('cx', fmt(base.cx + dx));
+    el.setAttribute('cy', fmt(base.cy + dy));
+    return true;
+  }
+
+  const w = base.w + 2 * offset, h = base.h + 2 * offset;
+  if (w <= 0 || h <= 0) return false;
+  el.setAttribute('x', fmt(base.x - offset + dx));
+  el.setAttribute('y', fmt(base.y - offset + dy));
+  el.setAttribute('width', fmt(w));
+  el.setAttribute('height', fmt(h));
+
+  // Round corners grow / shrink with the offset; sharp corners only round
+  // outward, fully with a round join and partly with a rounded miter
+  let r = Math.max(base.rx + offset, 0);
+  if (base.rx === 0 && offset > 0) {
+    r = roundness !== null ? offset * Math.min(Math.max(roundness, 0), 1)
+      : joinType === JoinType.Round ? offset : 0;
+  }
+  if (r > 0 || binding.saved.rx !== null || binding.saved.ry !== null) {
+    el.setAttribute('rx', fmt(r));
+    el.setAttribute('ry', fmt(r));
+  } else {
+    el.removeAttribute('rx');
+    el.removeAttribute('ry');
+  }
+  return true;
+}
+
+function restoreAttributes(binding: ShapeBinding): void {
+  for (const name of GEOMETRY_ATTRS) {
+    const value = binding.saved[name];
+    if (value === null) binding.el.removeAttribute(name);
+    else binding.el.setAttribute(name, value);
+  }
+}
+
+/** Puts the original element back exactly as it was before the first tween. */
+export function restoreShape(binding: ShapeBinding): void {
+  const { el, proxy } = binding;
+  if (proxy) {
+    proxy.replaceWith(el);
+    binding.proxy = null;
+  }
+  restoreAttributes(binding);
+  el.style.visibility = binding.savedVisibility;
+  bindings.delete(el);
+}
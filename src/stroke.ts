@@ -0,0 +1,240 @@
+import type { StrokeStyle } from './types';
+import { JoinType, EndType } from './types';
+import type { Pt } from './geometry';
+import { sub, len } from './geometry';
+import type { Ring } from './flatten';
+import type { Precision } from './offset';
+import type { PathFormat } from './output';
+import { DEFAULT_FORMAT } from './output';
+import { prepareRings, offsetOutline, outlineToPathData, resolveOptions, DEFAULT_PRECISION } from './offset';
+
+// ---------------------------------------------------------------------------
+// Stroke outlines (strokeOutline mode)
+//
+// A stroke is the path offset by half its width on both sides, with the
+// stroke's caps and joins: EndType.Butt / Square / Round for open subpaths
+// (closed ones are Joined) and the matching JoinType. Dashes are cut out of
+// the flattened subpaths first and outlined as open pieces.
+// ---------------------------------------------------------------------------
+
+/** A StrokeStyle with every default filled in */
+export type ResolvedStroke = Required<StrokeStyle>;
+
+const CAPS: Record<ResolvedStroke['linecap'], EndType> = { butt: EndType.Butt, round: EndType.Round, square: EndType.Square };
+const JOINS: Record<ResolvedStroke['linejoin'], JoinType> = {
+  'miter': JoinType.Miter, 'miter-clip': JoinType.Miter, 'arcs': JoinType.Miter, 'round': JoinType.Round, 'bevel': JoinType.Bevel,
+};
+
+// Outlines are written at this precision and parsed again by the tween
+const OUTLINE_FORMAT: PathFormat = { ...DEFAULT_FORMAT, precision: 3 };
+
+/** Fills in the defaults of the stroke-* presentation attributes. */
+export function resolveStroke(style: StrokeStyle): ResolvedStroke {
+  return {
+    width:      style.width      ?? 1,
+    linecap:    style.linecap    ?? 'butt',
+    linejoin:   style.linejoin   ?? 'miter',
+    miterLimit: style.miterLimit ?? 4,
+    dasharray:  style.dasharray  ?? null,
+    dashoffset: style.dashoffset ?? 0,
+  };
+}
+
+// A dasharray as SVG draws it: an odd count repeats once more, and a
+// negative entry or a zero total draws the stroke solid
+function dashPattern(dasharray: number[] | null): number[] | null {
+  if (!dasharray || dasharray.length === 0) return null;
+  if (dasharray.some((v) => !(v >= 0)) || dasharray.every((v) => v === 0)) return null;
+  return dasharray.length % 2 ? [...dasharray, ...dasharray] : dasharray;
+}
+
+function add(dash: Pt[], p: Pt): void {
+  const last = dash[dash.length - 1];
+  if (last[0] !== p[0] || last[1] !== p[1]) dash.push(p);
+}
+
+// The dashes of one ring, as open polylines; the pattern restarts on every subpath
+function dashLine(ring: Ring, pattern: number[], phase: number): Pt[][] {
+  const pts = ring.reversed ? ring.points.slice().reverse() : ring.points.slice();
+  if (ring.closed) pts.push(pts[0]);
+  const period = pattern.reduce((sum, v) => sum + v, 0);
+
+  // Where `phase` falls in the pattern
+  let at = ((phase % period) + period) % period;
+  let k = 0;
+  while (at >= pattern[k]) at -= pattern[k++];
+  let remaining = pattern[k] - at;
+
+  const dashes: Pt[][] = [];
+  let dash: Pt[] | null = k % 2 === 0 ? [pts[0]] : null;
+  for (let i = 1; i < pts.length; i++) {
+    const a = pts[i - 1], b = pts[i];
+    const l = len(sub(b, a));
+    let t = 0;
+    while (l - t > remaining) {
+      t += remaining;
+      const p: Pt = [Math.round(a[0] + (b[0] - a[0]) * t / l), Math.round(a[1] + (b[1] - a[1]) * t / l)];
+      if (dash) {
+        add(dash, p);
+        dashes.push(dash);
+        dash = null;
+      } else {
+        dash = [p];
+      }
+      k = (k + 1) % pattern.length;
+      remaining = pattern[k];
+    }
+    remaining -= l - t;
+    if (dash) add(dash, b);
+  }
+  if (dash) dashes.push(dash);
+  return dashes;
+}
+
+/** The dashes of prepared rings, as open rings. */
+export function dashRings(rings: Ring[], dasharray: number[], dashoffset: number): Ring[] {
+  const scale = rings[0]?.scale ?? 1;
+  const pattern = dasharray.map((v) => v * scale);
+  return rings.flatMap((ring) => dashLine(ring, pattern, dashoffset * scale).map((points): Ring => ({
+    points,
+    closed: false,
+    reversed: false,
+    scale,
+    origin: ring.origin,
+  })));
+}
+
+/**
+ * Path data of the filled outline `stroke` draws along `pathData`, '' when it
+ * draws nothing. Throws an OffsetPathError when there is nothing to outline.
+ */
+export function strokeOutlinePathData(pathData: string, stroke: ResolvedStroke, precision: Precision = DEFAULT_PRECISION): string {
+  let rings = prepareRings(pathData, precision);
+  if (!(stroke.width > 0)) return '';
+  const pattern = dashPattern(stroke.dasharray);
+  if (pattern) rings = dashRings(rings, pattern, stroke.dashoffset);
+
+  const options = resolveOptions({
+    offset: 0,
+    joinType: JOINS[stroke.linejoin] ?? JoinType.Miter,
+    endType: CAPS[stroke.linecap] ?? EndType.Butt,
+    miterLimit: Math.max(stroke.miterLimit, 1),
+  });
+  const outline = rings.length > 0 ? offsetOutline(rings, stroke.width / 2, options, OUTLINE_FORMAT) : null;
+  return outline ? outlineToPathData(outline, OUTLINE_FORMAT) : '';
+}
+
+// Numbers in a computed value ("4px", "10px, 5px"); percentages are not resolved
+function lengths(value: string | null | undefined): number[] | null {
+  if (!value || value === 'none') return null;
+  const numbers = value.split(/[\s,]+/).filter(Boolean).map(parseFloat);
+  return numbers.every(Number.isFinite) ? numbers : null;
+}
+
+/**
+ * The stroke `el` is drawn with, from its computed style or, detached, its
+ * presentation attributes, overridden by whatever `overrides` sets.
+ */
+export function readStroke(el: Element, overrides: StrokeStyle = {}): ResolvedStroke {
+  const style = el.ownerDocument?.defaultView?.getComputedStyle(el);
+  const read = (property: string, attribute: string): string | null =>
+    (style?.getPropertyValue(property) || null) ?? el.getAttribute(attribute);
+
+  return resolveStroke({
+    width:      lengths(read('stroke-width', 'stroke-width'))?.[0],
+    linecap:    (read('stroke-linecap', 'stroke-linecap') as ResolvedStroke['linecap']) ?? undefined,
+    linejoin:   (read('stroke-linejoin', 'stroke-linejoin') as ResolvedStroke['linejoin']) ?? undefined,
+    miterLimit: lengths(read('stroke-miterlimit', 'stroke-miterlimit'))?.[0],
+    dasharray:  lengths(read('stroke-dasharray', 'stroke-dasharray')),
+    dashoffset: lengths(read('stroke-dashoffset', 'stroke-dashoffset'))?.[0],
+    ...defined(overrides),
+  });
+}
+
+// The fields a StrokeStyle sets
+function defined(style: StrokeStyle): StrokeStyle {
+  return Object.fromEntries(Object.entries(style).filter(([, v]) => v !== undefined));
+}
+
+// ---------------------------------------------------------------------------
+// Element binding
+// ---------------------------------------------------------------------------
+
+export interface StrokeBinding {
+  /** The geometry stroked, as it was before the first tween */
+  source: string;
+  /** The stroke outlined, and its outline */
+  stroke: ResolvedStroke;
+  pathData: string;
+  /** Fill and fill-opacity the outline is drawn with: the stroke's paint */
+  paint: [string, string];
+  /** Element drawn, once painted: the target, or a basic shape's <path> proxy */
+  output: SVGElement | null;
+  /** Inline fill, fill-opacity and stroke of the output before it was painted */
+  savedStyle: [string, string, string];
+}
+
+// Bindings by element, kept until the element is restored
+const bindings = new WeakMap<Element, StrokeBinding>();
+
+function sameStroke(a: ResolvedStroke, b: ResolvedStroke): boolean {
+  return a.width === b.width && a.linecap === b.linecap && a.linejoin === b.linejoin &&
+    a.miterLimit === b.miterLimit && a.dashoffset === b.dashoffset &&
+    String(a.dasharray) === String(b.dasharray);
+}
+
+/**
+ * Outlines the stroke of `el`, whose geometry is `sourcePath`. Tweens on the
+ * same element share the binding until it is restored, so a follow-up tween
+ * outlines the original geometry with the original stroke rather than the
+ * last outline.
+ */
+export function bindStroke(el: Element, sourcePath: string, overrides: StrokeStyle, precision: Precision): StrokeBinding {
+  const existing = bindings.get(el);
+  // The element is filled with its stroke by now, so its stroke is read from the binding
+  const stroke = existing ? resolveStroke({ ...existing.stroke, ...defined(overrides) }) : readStroke(el, overrides);
+  if (existing) {
+    if (!sameStroke(existing.stroke, stroke)) {
+      existing.pathData = strokeOutlinePathData(existing.source, stroke, precision);
+      existing.stroke = stroke;
+    }
+    return existing;
+  }
+
+  const style = el.ownerDocument?.defaultView?.getComputedStyle(el);
+  const binding: StrokeBinding = {
+    source: sourcePath,
+    stroke,
+    pathData: strokeOutlinePathData(sourcePath, stroke, precision),
+    paint: [
+      style?.stroke || el.getAttribute('stroke') || 'none',
+      style?.strokeOpacity || el.getAttribute('stroke-opacity') || '',
+    ],
+    output: null,
+    savedStyle: ['', '', ''],
+  };
+  bindings.set(el, binding);
+  return binding;
+}
+
+/** Fills `output` with the stroke's paint and takes its stroke away. */
+export function paintStroke(binding: StrokeBinding, output: SVGElement): void {
+  if (binding.output === output) return;
+  binding.output = output;
+  binding.savedStyle = [output.style.fill, output.style.fillOpacity, output.style.stroke];
+  output.style.fill = binding.paint[0];
+  output.style.fillOpacity = binding.paint[1];
+  output.style.stroke = 'none';
+}
+
+/** Gives the output its own fill and stroke back. */
+export function restoreStroke(el: Element, binding: StrokeBinding): void {
+  if (binding.output) {
+    const [fill, fillOpacity, stroke] = binding.savedStyle;
+    binding.output.style.fill = fill;
+    binding.output.style.fillOpacity = fillOpacity;
+    binding.output.style.stroke = stroke;
+    binding.output = null;
+  }
+  bindings.delete(el);
+}
@@ -1,3 +1,5 @@
+import type { Pt, Matrix } from './geometry';
+
 /** Join types for path offsetting corners */
 export enum JoinType {
   Square = 0,
@@ -6,7 +8,12 @@ export enum JoinType {
   Miter = 3,
 }
 
-/** End types for open path endings */
+/**
+ * How subpaths are offset (Clipper2 semantics): Polygon fills them as closed
+ * polygons; the others outline both sides of the path by |offset|, with
+ * Joined closing each subpath first and Butt / Square / Round capping the
+ * ends of open ones (no Z)
+ */
 export enum EndType {
   Polygon = 0,
   Joined = 1,
@@ -15,27 +22,237 @@ export enum EndType {
   Round = 4,
 }
 
+/**
+ * Offset multiplier along a subpath: `t` is the arc-length position (0 at the
+ * start, 1 at the end), `point` a vertex and `normal` the unit direction a
+ * positive offset moves it in. Keyframes are multipliers spaced evenly along
+ * the subpath and interpolated linearly between.
+ */
+export type OffsetProfile = ((t: number, point: Pt, normal: Pt) => number) | number[];
+
+/**
+ * Point kept in place while the outline grows or shrinks: a transform-origin
+ * style string ('center bottom', '50% 100%', '20 40' in SVG units), a point
+ * `{ x, y }` in SVG units, `{ vertex }` to pin the n-th vertex of the path
+ * data, 'centroid' for the centre of area, or 'fit' to scale the outline back
+ * into the original bounding box.
+ */
+export type OffsetAnchor = string | { x: number; y: number } | { vertex: number };
+
+/**
+ * A stroke to turn into its filled outline, as the stroke-* presentation
+ * attributes draw it; lengths in SVG units. Dashes and gaps are taken in
+ * turn from the start of each subpath, shifted by `dashoffset`.
+ */
+export interface StrokeStyle {
+  /** Default: 1 */
+  width?: number;
+  /** Default: 'butt' */
+  linecap?: 'butt' | 'round' | 'square';
+  /** 'miter-clip' and 'arcs' are drawn as 'miter'. Default: 'miter' */
+  linejoin?: 'miter' | 'miter-clip' | 'arcs' | 'round' | 'bevel';
+  /** Default: 4 */
+  miterLimit?: number;
+  /** Default: null (solid) */
+  dasharray?: number[] | null;
+  /** Default: 0 */
+  dashoffset?: number;
+}
+
 /** Options for the offsetPath GSAP property */
 export interface OffsetPathOptions {
   /** Offset amount in SVG units. Positive = expand outward, negative = shrink inward. */
   offset: number;
+  /**
+   * Vary the offset along the path: each point moves by `offset × profile`.
+   * Function profiles are called every frame; `null` clears an inherited one.
+   * Default: unset (the same offset everywhere)
+   */
+  profile?: OffsetProfile | null;
   /** How to join offset segments at corners. Default: Round */
   joinType?: JoinType;
-  /** How to end open paths. Default: Polygon */
+  /** Fill subpaths, or outline them and how to cap open ends. Default: Polygon */
   endType?: EndType;
+  /**
+   * Blend convex corners from a miter (0) to a round join (1): each corner becomes
+   * an arc of radius `roundness × |offset|` tangent to both edges. Overrides
+   * joinType when set; tweens between Miter and Round joins interpolate it.
+   */
+  roundness?: number;
   /** Limit on miter joins. Default: 2.0 */
   miterLimit?: number;
-  /** Curve approximation tolerance. Default: 0.25 */
+  /**
+   * Curve approximation tolerance for round joins and caps, in steps of the
+   * integer grid (1/1000 SVG unit at quality 1). Default: 0.25
+   */
   arcTolerance?: number;
+  /**
+   * How finely the outline is worked: curves are flattened to within 0.1 / quality
+   * SVG units and coordinates snapped to 1000 × quality steps per unit, which
+   * makes round joins finer too. 'auto' takes the element's on-screen scale,
+   * so curves stay within 0.1 device pixels however large it is drawn. Default: 1
+   */
+  quality?: number | 'auto';
+  /**
+   * Most vertices written per outline each frame: curves are flattened more
+   * coarsely when the path alone needs more, and outlines still over the
+   * budget are simplified. Default: unset (no limit)
+   */
+  maxVertices?: number;
+  /**
+   * What `offset` is measured in: the path's own user units ('user'), CSS pixels
+   * on screen ('screen', via getScreenCTM), or the user units of an ancestor
+   * element. Read every frame, so responsive SVGs keep a constant outline. Default: 'user'
+   */
+  units?: 'user' | 'screen' | Element;
+  /**
+   * Measure the offset after this transform from the path's user space instead,
+   * e.g. a CTM captured ahead of time. Used when `units` is 'user'.
+   */
+  transform?: Matrix;
   /** Anchor X position (0.0 = left, 1.0 = right). Keeps this point fixed during offset. */
   originX?: number;
   /** Anchor Y position (0.0 = top, 1.0 = bottom). Keeps this point fixed during offset. */
   originY?: number;
+  /** Any other anchor (see OffsetAnchor); replaces originX / originY. Default: unset */
+  anchor?: OffsetAnchor;
+  /** Decimal places written per coordinate. Default: 2 */
+  precision?: number;
+  /** Write relative commands with the shortest number syntax. Default: false */
+  compact?: boolean;
+  /**
+   * Fit the result with cubic Béziers (and arcs for round joins) that stay within
+   * this distance of the offset outline, in SVG units. Default: unset (polyline output)
+   */
+  curveTolerance?: number;
+  /**
+   * Write every subpath with exactly this many vertices, spaced evenly by arc
+   * length and starting next to the start of the subpath it came from, so
+   * MorphSVG and other point-based tweens can follow the outline without
+   * popping. Replaces `curveTolerance`. Default: unset (every offset vertex)
+   */
+  pointCount?: number;
+  /**
+   * Snap the offset to multiples of this step (SVG units) and memoise each
+   * rendered frame, so scrubbing back or a yoyo reuses them. Default: unset (no cache)
+   */
+  cacheStep?: number;
+  /** Memory budget for memoised frames per tween, in kilobytes. Default: 256 */
+  cacheLimit?: number;
+  /**
+   * Contour mode: leave the target as it is and draw this many sibling rings,
+   * offset by 1×, 2×, … `offset`. Default: unset (offset the target itself)
+   */
+  contours?: number;
+  /** In contour mode, how much later each ring starts, as a fraction of the tween. Default: 0 */
+  stagger?: number;
+  /**
+   * For <g> targets: draw the union of the offset members as one outline, so
+   * pieces that touch after the offset fuse. Default: false (offset each member)
+   */
+  merge?: boolean;
+  /**
+   * Outline the target's stroke, as its computed stroke-width, linecap,
+   * linejoin, miterlimit and dasharray draw it, and offset that filled outline.
+   * The target is filled with its stroke paint while the tween runs. A
+   * StrokeStyle overrides what it sets. Default: false
+   */
+  strokeOutline?: boolean | StrokeStyle;
+  /**
+   * Throw an OffsetPathError for anything that would otherwise be skipped with
+   * a warning: a target that can't be offset, bad options, or path data with
+   * a syntax error anywhere (not just before the first command). Default: false
+   */
+  strict?: boolean;
+  /**
+   * Called after every frame with the path data drawn ('' once collapsed) and
+   * the offset, on the target or, in contour mode, on each ring
+   */
+  onOffsetUpdate?: (d: string, offset: number, target: SVGElement) => void;
+  /** Called when the offset collapses the shape and it is hidden */
+  onCollapse?: (target: SVGElement) => void;
+  /** Called when a collapsed shape appears again */
+  onRestore?: (target: SVGElement) => void;
 }
 
+/**
+ * A number in a tween, as GSAP takes values: a number or numeric string,
+ * relative to the current value ("+=5", "-=5", "*=2", "/=2"),
+ * "random(min, max[, snap])" or "random([a, b, …])", or a function called
+ * for each target with its index. Offsets also take "px", "%" (of the
+ * diagonal of the target's bounding box) and "em" (of its font size).
+ */
+export type OffsetValue = number | string | ((index: number, target: Element, targets: Element[]) => number | string);
+
+/** Options whose numbers a tween may give as an OffsetValue */
+export type NumericOption =
+  | 'offset' | 'roundness' | 'miterLimit' | 'arcTolerance' | 'quality' | 'maxVertices' | 'originX' | 'originY'
+  | 'precision' | 'curveTolerance' | 'pointCount' | 'cacheStep' | 'cacheLimit' | 'contours' | 'stagger';
+
+/** The offsetPath tween property: OffsetPathOptions, with OffsetValue numbers */
+export type OffsetPathVars = Omit<OffsetPathOptions, NumericOption> & { [K in NumericOption]?: OffsetValue } & {
+  offset: OffsetValue;
+  quality?: OffsetValue | 'auto';
+};
+
+/** Outline last drawn on an element, from OffsetPathPlugin.getState */
+export interface OffsetPathState {
+  /** Offset rendered, in the units of the tween */
+  offset: number;
+  /** Path data drawn, '' while collapsed */
+  d: string;
+  /** True while the offset has collapsed the shape and it is hidden */
+  collapsed: boolean;
+  /** Bounding box in the element's user units, null while collapsed */
+  bbox: { x: number; y: number; width: number; height: number } | null;
+  /** Filled area in square user units, holes subtracted */
+  area: number;
+}
+
+/** Options for offsetContours */
+export interface ContourOptions extends Omit<OffsetPathOptions,
+  'offset' | 'units' | 'cacheStep' | 'cacheLimit' | 'contours' | 'stagger' | 'merge' | 'strokeOutline' | 'onOffsetUpdate' | 'onCollapse' | 'onRestore'> {
+  /**
+   * Distance between successive contours in SVG units: negative for insets,
+   * positive for outsets. Default: unset (insets spread evenly, see `count`)
+   */
+  step?: number;
+  /**
+   * Number of contours. Insets stop early when the shape collapses; without
+   * a `step` they are spread evenly between the outline and the collapse
+   * point. Required for outsets.
+   */
+  count?: number;
+}
+
+/** Options for offsetKeyframes */
+export interface KeyframeOptions extends Omit<OffsetPathOptions,
+  'offset' | 'units' | 'cacheStep' | 'cacheLimit' | 'contours' | 'stagger' | 'merge' | 'compact' | 'curveTolerance' |
+  'maxVertices' | 'onOffsetUpdate' | 'onCollapse' | 'onRestore'> {
+  /** Offset of the first frame, in SVG units. Default: 0 */
+  from?: number;
+  /** Offset of the last frame, in SVG units */
+  to: number;
+  /** Number of frames, both ends included, spaced evenly in time. Default: 11 */
+  frames?: number;
+  /**
+   * Maps time (0 → 1) to progress from `from` to `to`, such as
+   * `gsap.parseEase("power2.inOut")`. Default: linear
+   */
+  ease?: (t: number) => number;
+  /**
+   * Vertices of every subpath in every frame. Default: as many as the largest
+   * subpath of `d` has once flattened, and at least 32
+   */
+  pointCount?: number;
+}
+
+/** Output formatting options shared by the plugin and toPathData */
+export type PathDataOptions = Pick<OffsetPathOptions, 'precision' | 'compact' | 'curveTolerance' | 'pointCount' | 'maxVertices'>;
+
 // Extend GSAP's TweenVars interface
 declare module 'gsap' {
   interface TweenVars {
-    offsetPath?: OffsetPathOptions | number;
+    offsetPath?: OffsetPathVars | OffsetValue | ((index: number, target: Element, targets: Element[]) => OffsetPathVars);
   }
 }
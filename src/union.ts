@@ -0,0 +1,382 @@
+import type { Pt } from './geometry';
+import { sub, dot, cross, windingSum } from './geometry';
+
+// ---------------------------------------------------------------------------
+// Polygon union with the Positive fill rule (port of the Clipper2 clean-up
+// that ClipperOffset::execute runs on its raw offset output)
+//
+// Rings are integer paths in the plugin's winding convention: outer contours
+// run CW in Y-down coordinates (windingSum < 0) and contribute +1 to the
+// winding number of the area they enclose; holes run the other way and
+// contribute -1. Every region whose total winding is > 0 is kept.
+//
+// 1. Every edge is split at every intersection and collinear overlap.
+// 2. The split edges form chains between junction vertices; each chain is
+//    classified once by casting an axis-aligned ray from its first segment.
+// 3. Boundary segments (filled on exactly one side) are re-oriented so the
+//    filled side is on their left and linked back into closed rings.
+//
+// The output uses the same winding convention as the input, so it can be
+// fed straight back into the offsetter or written out as SVG.
+// ---------------------------------------------------------------------------
+
+const PACK_LIMIT = 2 ** 26;
+
+interface Edge {
+  a: Pt;
+  b: Pt;
+  ring: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  splits: Pt[];
+}
+
+interface Seg {
+  a: Pt;
+  b: Pt;
+  /** Interned point ids of a and b */
+  ia: number;
+  ib: number;
+  /** Undirected id shared by coincident segments */
+  key: number;
+  /** +1 = keep a→b, -1 = keep b→a, 0 = interior / exterior */
+  keep: number;
+}
+
+function buildEdges(rings: Pt[][]): Edge[] {
+  const edges: Edge[] = [];
+  for (let r = 0; r < rings.length; r++) {
+    const ring = rings[r];
+    for (let i = 0; i < ring.length; i++) {
+      const a = ring[i];
+      const b = ring[(i + 1) % ring.length];
+      if (a[0] === b[0] && a[1] === b[1]) continue;
+      edges.push({
+        a, b, ring: r,
+        minX: Math.min(a[0], b[0]), maxX: Math.max(a[0], b[0]),
+        minY: Math.min(a[1], b[1]), maxY: Math.max(a[1], b[1]),
+        splits: [],
+      });
+    }
+  }
+  return edges;
+}
+
+// Parameter of p projected onto edge a→b, in [0, 1] along the edge
+function paramOn(e: Edge, p: Pt): number {
+  const d = sub(e.b, e.a);
+  return dot(sub(p, e.a), d) / dot(d, d);
+}
+
+function intersectEdges(e1: Edge, e2: Edge): void {
+  const r = sub(e1.b, e1.a);
+  const s = sub(e2.b, e2.a);
+  const qp = sub(e2.a, e1.a);
+  const den = cross(r, s);
+
+  if (den === 0) {
+    // Parallel: only collinear overlaps matter
+    if (cross(qp, r) !== 0) return;
+    for (const p of [e2.a, e2.b]) {
+      const t = paramOn(e1, p);
+      if (t > 0 && t < 1) e1.splits.push(p);
+    }
+    for (const p of [e1.a, e1.b]) {
+      const t = paramOn(e2, p);
+      if (t > 0 && t < 1) e2.splits.push(p);
+    }
+    return;
+  }
+
+  // Exact on integer input; t/u endpoints are detected without rounding
+  const tn = cross(qp, s);
+  const un = cross(qp, r);
+  if (den > 0 ? (tn < 0 || tn > den || un < 0 || un > den)
+              : (tn > 0 || tn < den || un > 0 || un < den)) return;
+
+  const tInner = tn !== 0 && tn !== den;
+  const uInner = un !== 0 && un !== den;
+  if (!tInner && !uInner) return; // shared vertex
+
+  let p: Pt;
+  if (!tInner) p = tn === 0 ? e1.a : e1.b;
+  else if (!uInner) p = un === 0 ? e2.a : e2.b;
+  else {
+    const t = tn / den;
+    p = [Math.round(e1.a[0] + r[0] * t), Math.round(e1.a[1] + r[1] * t)];
+  }
+
+  if (tInner) e1.splits.push(p);
+  if (uInner) e2.splits.push(p);
+}
+
+function findIntersections(edges: Edge[]): void {
+  // Sweep along X so only edges with overlapping X ranges are tested
+  const order = edges.slice().sort((e1, e2) => e1.minX - e2.minX);
+  for (let i = 0; i < order.length; i++) {
+    const e1 = order[i];
+    for (let j = i + 1; j < order.length; j++) {
+      const e2 = order[j];
+      if (e2.minX > e1.maxX) break;
+      if (e2.minY > e1.maxY || e2.maxY < e1.minY) continue;
+      intersectEdges(e1, e2);
+    }
+  }
+}
+
+// Split each edge at its intersection points; returns the segments of every
+// ring in ring order, with end points interned to integer ids.
+function splitEdges(edges: Edge[], ringCount: number): { byRing: Seg[][]; pointCount: number } {
+  const byRing: Seg[][] = [];
+  for (let r = 0; r < ringCount; r++) byRing.push([]);
+
+  // Packed numeric keys are much faster than strings; fall back to strings
+  // only for coordinates beyond ±2^26
+  const ids = new Map<number | string, number>();
+  const intern = (p: Pt): number => {
+    const k = Math.abs(p[0]) < PACK_LIMIT && Math.abs(p[1]) < PACK_LIMIT
+      ? (p[0] + PACK_LIMIT) * PACK_LIMIT * 2 + (p[1] + PACK_LIMIT)
+      : p[0] + ',' + p[1];
+    let id = ids.get(k);
+    if (id === undefined) { id = ids.size; ids.set(k, id); }
+    return id;
+  };
+
+  const raw: Array<[Pt, Pt, number, number, number]> = [];
+  for (const e of edges) {
+    const pts: Pt[] = [e.a];
+    if (e.splits.length > 0) {
+      e.splits.sort((p, q) => paramOn(e, p) - paramOn(e, q));
+      pts.push(...e.splits);
+    }
+    pts.push(e.b);
+
+    for (let i = 0; i < pts.length - 1; i++) {
+      const a = pts[i], b = pts[i + 1];
+      if (a[0] === b[0] && a[1] === b[1]) continue;
+      raw.push([a, b, intern(a), intern(b), e.ring]);
+    }
+  }
+
+  const n = ids.size;
+  for (const [a, b, ia, ib, ring] of raw) {
+    const key = ia < ib ? ia * n + ib : ib * n + ia;
+    byRing[ring].push({ a, b, ia, ib, key, keep: 0 });
+  }
+  return { byRing, pointCount: n };
+}
+
+// Segments bucketed into horizontal and vertical bands so a ray cast only
+// visits the segments that can cross it.
+interface RayIndex {
+  all: Seg[];
+  rows: Seg[][] | null;
+  cols: Seg[][] | null;
+  min: Pt;
+  cell: Pt;
+}
+
+function buildBands(all: Seg[], axis: 0 | 1, min: number, cell: number, count: number): Seg[][] {
+  const bands: Seg[][] = [];
+  for (let i = 0; i < count; i++) bands.push([]);
+  for (const seg of all) {
+    const lo = Math.floor((Math.min(seg.a[axis], seg.b[axis]) - min) / cell);
+    const hi = Math.floor((Math.max(seg.a[axis], seg.b[axis]) - min) / cell);
+    for (let i = lo; i <= hi; i++) bands[i].push(seg);
+  }
+  return bands;
+}
+
+function bandOf(index: RayIndex, axis: 0 | 1, doubled: number): Seg[] {
+  const count = Math.max(1, Math.ceil(Math.sqrt(index.all.length)));
+  if (axis === 1 && !index.rows) index.rows = buildBands(index.all, 1, index.min[1], index.cell[1], count);
+  if (axis === 0 && !index.cols) index.cols = buildBands(index.all, 0, index.min[0], index.cell[0], count);
+  const bands = axis === 1 ? index.rows! : index.cols!;
+  const i = Math.floor((doubled / 2 - index.min[axis]) / index.cell[axis]);
+  return bands[Math.min(Math.max(i, 0), bands.length - 1)];
+}
+
+function buildRayIndex(all: Seg[]): RayIndex {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const seg of all) {
+    for (const p of [seg.a, seg.b]) {
+      if (p[0] < minX) minX = p[0];
+      if (p[1] < minY) minY = p[1];
+      if (p[0] > maxX) maxX = p[0];
+      if (p[1] > maxY) maxY = p[1];
+    }
+  }
+  const count = Math.max(1, Math.ceil(Math.sqrt(all.length)));
+  return {
+    all, rows: null, cols: null,
+    min: [minX, minY],
+    cell: [(maxX - minX) / count + 1, (maxY - minY) / count + 1],
+  };
+}
+
+// Winding number on the far side of a ray cast from the midpoint of seg: a
+// +X ray for non-horizontal segments, a +Y ray for horizontal ones.
+// Coincident segments are skipped; the caller accounts for them. Doubled
+// coordinates keep the side tests exact on integer input.
+function windingAlongRay(seg: Seg, index: RayIndex): number {
+  const mx = seg.a[0] + seg.b[0];
+  const my = seg.a[1] + seg.b[1];
+  const axis: 0 | 1 = seg.a[1] !== seg.b[1] ? 1 : 0;
+  const band = bandOf(index, axis, axis === 1 ? my : mx);
+
+  let w = 0;
+  for (const o of band) {
+    if (o.key === seg.key) continue;
+    const cx = 2 * o.a[0], cy = 2 * o.a[1];
+    const dx = 2 * o.b[0] - cx, dy = 2 * o.b[1] - cy;
+    if (axis === 1) {
+      // Half-open test so a vertex on the ray counts once
+      if ((cy > my) === (cy + dy > my)) continue;
+      const side = (cx - mx) * dy + (my - cy) * dx;
+      if (dy > 0 ? side > 0 : side < 0) w += dy > 0 ? 1 : -1;
+    } else {
+      if ((cx > mx) === (cx + dx > mx)) continue;
+      const side = (cy - my) * dx + (mx - cx) * dy;
+      if (dx > 0 ? side > 0 : side < 0) w += dx > 0 ? -1 : 1;
+    }
+  }
+  return w;
+}
+
+function classify(seg: Seg, group: Seg[], index: RayIndex): number {
+  const wRay = windingAlongRay(seg, index);
+  let net = 0;
+  for (const g of group) net += g.ia === seg.ia ? 1 : -1;
+
+  // The ray leaves the segment on its left when it points along the left
+  // normal (-dy, dx); w(left) - w(right) = net.
+  const dx = seg.b[0] - seg.a[0], dy = seg.b[1] - seg.a[1];
+  const rayOnLeft = dy !== 0 ? dy < 0 : dx > 0;
+  const wLeft = rayOnLeft ? wRay : wRay + net;
+  const wRight = wLeft - net;
+  if ((wLeft > 0) === (wRight > 0)) return 0;
+  return wLeft > 0 ? 1 : -1;
+}
+
+function classifySegments(byRing: Seg[][], pointCount: number): Seg[] {
+  const all: Seg[] = [];
+  const groups = new Map<number, Seg[]>();
+  const degree = new Uint32Array(pointCount);
+  for (const segs of byRing) {
+    for (const seg of segs) {
+      all.push(seg);
+      const g = groups.get(seg.key);
+      if (g) g.push(seg); else groups.set(seg.key, [seg]);
+      degree[seg.ia]++;
+      degree[seg.ib]++;
+    }
+  }
+  const index = buildRayIndex(all);
+
+  // Winding on either side is constant along a chain of segments whose
+  // inner vertices touch nothing else, so one ray cast per chain suffices.
+  for (const segs of byRing) {
+    if (segs.length === 0) continue;
+    let start = segs.findIndex((seg) => degree[seg.ia] > 2);
+    if (start < 0) start = 0;
+
+    let keep = 0;
+    let prevShared = false;
+    for (let i = 0; i < segs.length; i++) {
+      const seg = segs[(start + i) % segs.length];
+      const group = groups.get(seg.key)!;
+      const shared = group.length > 1;
+      if (i === 0 || shared || prevShared || degree[seg.ia] > 2) {
+        keep = classify(seg, group, index);
+      }
+      seg.keep = keep;
+      prevShared = shared;
+    }
+  }
+
+  // Coincident segments collapse to a single boundary segment
+  const boundary: Seg[] = [];
+  for (const group of groups.values()) {
+    const seg = group.find((g) => g.keep !== 0);
+    if (seg) boundary.push(seg);
+  }
+  return boundary;
+}
+
+function linkRings(boundary: Seg[], pointCount: number): Pt[][] {
+  const outgoing: Array<Seg[] | undefined> = new Array(pointCount);
+  const from = (seg: Seg) => (seg.keep > 0 ? seg.ia : seg.ib);
+  const to = (seg: Seg) => (seg.keep > 0 ? seg.ib : seg.ia);
+  const dir = (seg: Seg): Pt => (seg.keep > 0 ? sub(seg.b, seg.a) : sub(seg.a, seg.b));
+  for (const seg of boundary) {
+    const list = outgoing[from(seg)];
+    if (list) list.push(seg); else outgoing[from(seg)] = [seg];
+  }
+
+  const rings: Pt[][] = [];
+  for (const list of outgoing) {
+    while (list && list.length > 0) {
+      const first = list.pop()!;
+      const ring: Pt[] = [first.keep > 0 ? first.a : first.b];
+      const startId = from(first);
+      let cur = first;
+      let closed = false;
+
+      for (;;) {
+        const endId = to(cur);
+        if (endId === startId) { closed = true; break; }
+        ring.push(cur.keep > 0 ? cur.b : cur.a);
+        const next = outgoing[endId];
+        if (!next || next.length === 0) break;
+
+        // Take the leftmost turn so rings that touch at a vertex stay apart
+        let best = 0;
+        if (next.length > 1) {
+          const din = dir(cur);
+          let bestAngle = -Infinity;
+          for (let i = 0; i < next.length; i++) {
+            const dout = dir(next[i]);
+            const angle = Math.atan2(cross(din, dout), dot(din, dout));
+            if (angle > bestAngle) { bestAngle = angle; best = i; }
+          }
+        }
+        cur = next.splice(best, 1)[0];
+      }
+
+      if (closed) rings.push(ring);
+    }
+  }
+  return rings;
+}
+
+function dropCollinear(ring: Pt[]): Pt[] {
+  const out: Pt[] = [];
+  const n = ring.length;
+  for (let i = 0; i < n; i++) {
+    const prev = ring[(i - 1 + n) % n];
+    const curr = ring[i];
+    const next = ring[(i + 1) % n];
+    const e1 = sub(curr, prev), e2 = sub(next, curr);
+    if (cross(e1, e2) === 0 && dot(e1, e2) > 0) continue;
+    out.push(curr);
+  }
+  return out;
+}
+
+export function unionRings(rings: Pt[][]): Pt[][] {
+  const edges = buildEdges(rings);
+  if (edges.length === 0) return [];
+
+  findIntersections(edges);
+  const { byRing, pointCount } = splitEdges(edges, rings.length);
+  const boundary = classifySegments(byRing, pointCount);
+
+  const result: Pt[][] = [];
+  for (const ring of linkRings(boundary, pointCount)) {
+    const cleaned = dropCollinear(ring);
+    if (cleaned.length >= 3 && windingSum(cleaned) !== 0) result.push(cleaned);
+  }
+  return result;
+}
@@ -0,0 +1,121 @@
+import type { ResolvedOptions } from './offset';
+import { measurePath } from './offset';
+import { OffsetPathError } from './errors';
+
+// ---------------------------------------------------------------------------
+// Tween values
+//
+// The plugin takes its vars raw (GSAP would call profile functions and
+// callbacks as function values), so the GSAP value grammar is resolved here:
+// function values per target, "random(…)", relative "+=" / "-=" / "*=" / "/="
+// and, for the offset, "px", "%" and "em" units.
+// ---------------------------------------------------------------------------
+
+/** An offset, or any other number given as GSAP would take it */
+export interface ParsedValue {
+  relative: '+' | '-' | '*' | '/' | null;
+  amount: number;
+  unit: 'px' | '%' | 'em' | null;
+}
+
+const VALUE = /^(?:([-+*/])=)?\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(px|%|em)?$/i;
+const RANDOM = /random\(([^)]*)\)/g;
+
+// Options that are functions themselves rather than function values
+const FUNCTION_OPTIONS = new Set(['profile', 'onOffsetUpdate', 'onCollapse', 'onRestore']);
+
+// Numeric options besides the offset, with what relative values apply to when
+// the element was never tweened with them
+const NUMERIC_DEFAULTS: Record<string, number> = {
+  roundness: 0, miterLimit: 2, arcTolerance: 0.25, originX: 0, originY: 0,
+  precision: 2, curveTolerance: 0, pointCount: 0, maxVertices: 0, quality: 1,
+  cacheStep: 0, cacheLimit: 256, contours: 0, stagger: 0,
+};
+
+// "random(min, max[, snap])" or "random([a, b, …])", as GSAP replaces it
+function replaceRandom(s: string): string {
+  return s.replace(RANDOM, (_, args: string) => {
+    const list = /^\s*\[([^\]]*)\]\s*$/.exec(args);
+    if (list) {
+      const values = list[1].split(',').map((v) => v.trim());
+      return values[Math.floor(Math.random() * values.length)];
+    }
+    const [min, max, snap] = args.split(',').map(Number);
+    const step = snap || 1e-5;
+    return String(Number((Math.round((min + Math.random() * (max - min)) / step) * step).toFixed(5)));
+  });
+}
+
+/**
+ * The vars of one target: a function value called with the target's index,
+ * then each option's, with "random(…)" replaced. A number or string alone is
+ * the offset.
+ */
+export function targetVars(value: unknown, tween: unknown, index: number, target: unknown, targets: unknown[]): Record<string, any> {
+  const resolve = (v: unknown): unknown => (typeof v === 'function' ? v.call(tween, index, target, targets) : v);
+  const raw = resolve(value);
+  const vars: Record<string, any> = raw !== null && typeof raw === 'object' ? { ...raw } : { offset: raw };
+  for (const key of Object.keys(vars)) {
+    if (!FUNCTION_OPTIONS.has(key)) vars[key] = resolve(vars[key]);
+    if (typeof vars[key] === 'string') vars[key] = replaceRandom(vars[key]);
+  }
+  return vars;
+}
+
+/** Parses a number in the grammar. Throws an OffsetPathError for anything else. */
+export function parseValue(value: unknown, name: string, units = false): ParsedValue {
+  if (typeof value === 'number') return { relative: null, amount: value, unit: null };
+  const match = typeof value === 'string' ? VALUE.exec(value.trim()) : null;
+  if (!match || (!units && match[3])) {
+    throw new OffsetPathError('InvalidOption', `${name} must be a number${units ? ', with px, % or em' : ''}, or relative ("+=", "-=", "*=", "/="), got ${JSON.stringify(value)}`);
+  }
+  const relative = (match[1] ?? null) as ParsedValue['relative'];
+  const amount = Number(match[2]);
+  const unit = match[3] ? match[3].toLowerCase() as ParsedValue['unit'] : null;
+  if (unit && (relative === '*' || relative === '/')) {
+    throw new OffsetPathError('InvalidOption', `${name} can only be scaled by a plain number, got ${JSON.stringify(value)}`);
+  }
+  return { relative, amount, unit };
+}
+
+/** The number `value` stands for, given the current one and the size of its unit. */
+export function applyValue(value: ParsedValue, base: number, unitSize = 1): number {
+  const amount = value.amount * unitSize;
+  switch (value.relative) {
+    case '+': return base + amount;
+    case '-': return base - amount;
+    case '*': return base * amount;
+    case '/': return base / amount;
+    default:  return amount;
+  }
+}
+
+/**
+ * Replaces the numeric options of `vars` other than the offset with numbers.
+ * Relative values apply to `current`, the options last rendered on the
+ * element, or to the defaults.
+ */
+export function resolveNumbers(vars: Record<string, any>, current?: ResolvedOptions): void {
+  for (const [key, fallback] of Object.entries(NUMERIC_DEFAULTS)) {
+    const value = vars[key];
+    if (value === undefined || value === null || typeof value === 'number' || (key === 'quality' && value === 'auto')) continue;
+    const base = (current as Record<string, any> | undefined)?.[key] ?? fallback;
+    vars[key] = applyValue(parseValue(value, key), base);
+  }
+}
+
+/**
+ * An offset in the tween's units: "%" of the diagonal of the bounding box of
+ * `geometry`, "em" of the font size of `el`, relative ones from `base`.
+ */
+export function resolveOffset(value: ParsedValue, base: number, geometry: string | null, el: Element): number {
+  let size = 1;
+  if (value.unit === '%') {
+    const box = geometry ? measurePath(geometry).bbox : null;
+    size = box ? Math.hypot(box.width, box.height) / 100 : 0;
+  } else if (value.unit === 'em') {
+    const fontSize = parseFloat(el.ownerDocument?.defaultView?.getComputedStyle(el).fontSize ?? '');
+    size = Number.isFinite(fontSize) ? fontSize : 16;
+  }
+  return applyValue(value, base, size);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { offsetPathData, flatten, JoinType, EndType } from '../src/index';
+import { parseAnchor, centroid } from '../src/anchor';
+import { measurePath } from '../src/offset';
+import { FIXTURES } from './fixtures';
+
+const box = (d: string) => measurePath(d).bbox;
+
+describe('parseAnchor', () => {
+  it.each([
+    ['center bottom', { originX: 0.5, originY: 1, anchorX: null, anchorY: null }],
+    ['bottom left', { originX: 0, originY: 1, anchorX: null, anchorY: null }],
+    ['50% 100%', { originX: 0.5, originY: 1, anchorX: null, anchorY: null }],
+    ['top', { originX: 0.5, originY: 0, anchorX: null, anchorY: null }],
+    ['right', { originX: 1, originY: 0.5, anchorX: null, anchorY: null }],
+    ['20 40', { originX: null, originY: null, anchorX: 20, anchorY: 40 }],
+    ['20px, 40', { originX: null, originY: null, anchorX: 20, anchorY: 40 }],
+    ['50% 40', { originX: 0.5, originY: null, anchorX: null, anchorY: 40 }],
+  ])('reads %j', (anchor, fields) => {
+    expect(parseAnchor(anchor)).toEqual({ ...fields, anchor: null });
+  });
+
+  it('reads the modes that place the whole outline', () => {
+    expect(parseAnchor('Centroid').anchor).toBe('centroid');
+    expect(parseAnchor('fit').anchor).toBe('fit');
+    expect(parseAnchor({ vertex: 3 }).anchor).toEqual({ vertex: 3 });
+    expect(parseAnchor({ x: 1, y: 2 })).toMatchObject({ anchorX: 1, anchorY: 2 });
+  });
+
+  it.each(['left right', 'top bottom', 'middle', '1 2 3', ''])('rejects %j', (anchor) => {
+    expect(() => parseAnchor(anchor)).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+
+  it('rejects vertices that are not indices', () => {
+    expect(() => parseAnchor({ vertex: -1 })).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+    expect(() => parseAnchor({ vertex: 1.5 })).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+});
+
+describe('anchored offsets', () => {
+  const miter = { joinType: JoinType.Miter, miterLimit: 4 };
+
+  it('keeps a point of the bounding box', () => {
+    expect(box(offsetPathData(FIXTURES.square, { offset: 10, anchor: 'center bottom', ...miter })))
+      .toEqual({ x: -10, y: -20, width: 120, height: 120 });
+  });
+
+  it('keeps a point given in SVG units', () => {
+    // (25, 0) is a quarter of the way along the top edge
+    expect(box(offsetPathData(FIXTURES.square, { offset: 10, anchor: '25 0', ...miter })))
+      .toEqual({ x: -5, y: 0, width: 120, height: 120 });
+    expect(box(offsetPathData(FIXTURES.square, { offset: 10, anchor: { x: 100, y: 100 }, ...miter })))
+      .toEqual({ x: -20, y: -20, width: 120, height: 120 });
+  });
+
+  it('keeps the centroid of irregular shapes', () => {
+    const d = 'M 0 0 L 100 0 L 0 30 Z';
+    const at = (path: string) => centroid(flatten(path).map((ring) => ring.points))!;
+    const [x, y] = at(offsetPathData(d, { offset: 8, anchor: 'centroid' }));
+    const [x0, y0] = at(d);
+    expect(x).toBeCloseTo(x0, 1);
+    expect(y).toBeCloseTo(y0, 1);
+  });
+
+  it('pins a vertex of the path data', () => {
+    // Vertex 2 is the corner at (100, 100), which the mitred corner moves to (110, 110)
+    expect(box(offsetPathData(FIXTURES.square, { offset: 10, anchor: { vertex: 2 }, ...miter })))
+      .toEqual({ x: -20, y: -20, width: 120, height: 120 });
+  });
+
+  it('anchors nothing past the last vertex', () => {
+    expect(offsetPathData(FIXTURES.square, { offset: 10, anchor: { vertex: 40 } }))
+      .toBe(offsetPathData(FIXTURES.square, 10));
+  });
+
+  it('fits the outline back into the bounding box', () => {
+    expect(box(offsetPathData(FIXTURES.star, { offset: 6, anchor: 'fit' }))).toEqual(box(FIXTURES.star));
+  });
+
+  it('centres an axis without extent', () => {
+    expect(box(offsetPathData('M 0 50 H 100', { offset: 5, endType: EndType.Butt, anchor: 'fit' })))
+      .toEqual({ x: 0, y: 45, width: 100, height: 10 });
+  });
+});
@@ -0,0 +1,67 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import gsap from 'gsap';
+import { OffsetPathPlugin, offsetPathData, JoinType } from '../src/index';
+import type { OffsetPathOptions } from '../src/index';
+import { svg, tweenTo, boxOf } from './dom';
+
+const SQUARE = 'M 0 0 L 100 0 L 100 100 L 0 100 Z';
+
+const square = () => svg(`<path d="${SQUARE}"/>`).querySelector('path')!;
+
+// A paused fromTo of a square, run to `progress` with no easing
+function fromTo(from: OffsetPathOptions, to: OffsetPathOptions, progress: number): SVGPathElement {
+  const el = square();
+  gsap.fromTo(el, { offsetPath: from }, { offsetPath: to, duration: 1, ease: 'none', paused: true }).progress(progress);
+  return el;
+}
+
+describe('fromTo blending', () => {
+  it('blends the origin along with the offset', () => {
+    const from = { offset: 0, originX: 0, joinType: JoinType.Miter };
+    const to = { offset: 10, originX: 1, joinType: JoinType.Miter };
+    expect(boxOf(fromTo(from, to, 0.5))).toMatchObject({ x: -5, width: 110 });
+    // The right edge stays put at the end
+    expect(boxOf(fromTo(from, to, 1))).toMatchObject({ x: -20, width: 120 });
+  });
+
+  it('blends a miter into a round join through rounded miters', () => {
+    const el = fromTo({ offset: 0, joinType: JoinType.Miter }, { offset: 10, joinType: JoinType.Round }, 0.5);
+    expect(el.getAttribute('d')).toBe(offsetPathData(SQUARE, { offset: 5, roundness: 0.5 }));
+  });
+
+  it('blends keyframe profiles stop by stop', () => {
+    const el = fromTo({ offset: 4, profile: [1, 1, 1] }, { offset: 4, profile: [1, 3, 1] }, 0.5);
+    expect(el.getAttribute('d')).toBe(offsetPathData(SQUARE, { offset: 4, profile: [1, 2, 1] }));
+  });
+
+  it('blends the miter limit', () => {
+    // Square corners need a limit of 1.414: 1.3 still bevels them, 1.6 doesn't
+    const miter = (miterLimit: number) => offsetPathData(SQUARE, { offset: 4, joinType: JoinType.Miter, miterLimit });
+    expect(miter(1.3)).not.toBe(miter(1.6));
+    const el = fromTo({ offset: 0, joinType: JoinType.Miter, miterLimit: 1 }, { offset: 8, joinType: JoinType.Miter, miterLimit: 1.6 }, 0.5);
+    expect(el.getAttribute('d')).toBe(miter(1.3));
+  });
+
+  it('switches join types it cannot blend as the tween starts', () => {
+    const el = fromTo({ offset: 0, joinType: JoinType.Bevel }, { offset: 10, joinType: JoinType.Square }, 0.5);
+    expect(el.getAttribute('d')).toBe(offsetPathData(SQUARE, { offset: 5, joinType: JoinType.Square }));
+  });
+});
+
+describe('following tweens', () => {
+  it('start from the offset and options the last one rendered', () => {
+    const el = square();
+    tweenTo(el, { offset: 4, joinType: JoinType.Miter, originX: 0 });
+    tweenTo(el, { offset: 8 }, 0.5);
+    expect(OffsetPathPlugin.getOffset(el)).toBe(6);
+    expect(el.getAttribute('d')).toBe(offsetPathData(SQUARE, { offset: 6, joinType: JoinType.Miter, originX: 0 }));
+  });
+
+  it('take what they set over what they inherit', () => {
+    const el = square();
+    tweenTo(el, { offset: 4, joinType: JoinType.Miter });
+    tweenTo(el, { offset: 4, joinType: JoinType.Round });
+    expect(el.getAttribute('d')).toBe(offsetPathData(SQUARE, { offset: 4, joinType: JoinType.Round }));
+  });
+});
@@ -0,0 +1,98 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { OffsetPathPlugin, JoinType } from '../src/index';
+import { measurePath } from '../src/offset';
+import { svg, tweenTo, boxOf } from './dom';
+
+const SQUARE = 'M0 0 H10 V10 H0 Z';
+
+describe('clip paths and masks', () => {
+  it('offsets the content of a <clipPath> target', () => {
+    const root = svg(`<clipPath id="reveal"><path d="${SQUARE}"/></clipPath>`);
+    tweenTo(root.querySelector('clipPath')!, 3);
+    expect(boxOf(root.querySelector('path')!)).toEqual({ x: -3, y: -3, width: 16, height: 16 });
+  });
+
+  it('offsets the clip path an element refers to, leaving the element alone', () => {
+    const root = svg(`<clipPath id="reveal"><path d="${SQUARE}"/></clipPath><image clip-path="url(#reveal)" width="10" height="10"/>`);
+    const image = root.querySelector('image')!;
+    tweenTo(image, 3);
+    expect(boxOf(root.querySelector('path')!)).toEqual({ x: -3, y: -3, width: 16, height: 16 });
+    expect(image.getAttribute('width')).toBe('10');
+    expect(OffsetPathPlugin.getOffset(image)).toBe(3);
+  });
+
+  it('offsets the mask an element refers to', () => {
+    const root = svg(`<mask id="wipe"><path d="${SQUARE}"/></mask><image mask="url(#wipe)" width="10" height="10"/>`);
+    tweenTo(root.querySelector('image')!, -2);
+    expect(boxOf(root.querySelector('path')!)).toEqual({ x: 2, y: 2, width: 6, height: 6 });
+  });
+
+  it('measures objectBoundingBox content in the user units of the element', () => {
+    const root = svg('<clipPath id="reveal" clipPathUnits="objectBoundingBox"><rect width="1" height="1"/></clipPath>' +
+      '<image clip-path="url(#reveal)" width="200" height="100"/>');
+    const image = root.querySelector('image')!;
+    Object.assign(image, { getBBox: () => ({ x: 0, y: 0, width: 200, height: 100 }) });
+    tweenTo(image, { offset: 10, joinType: JoinType.Miter, precision: 3 });
+    // 10 units are 1/20 of the box across and 1/10 down
+    expect(boxOf(root.querySelector('clipPath path')!)).toEqual({ x: -0.05, y: -0.1, width: 1.1, height: 1.2 });
+  });
+
+  it('shares a clip path between the elements that use it', () => {
+    const root = svg(`<clipPath id="reveal"><path d="${SQUARE}"/></clipPath>` +
+      '<image clip-path="url(#reveal)"/><image clip-path="url(#reveal)"/>');
+    const [first, second] = root.querySelectorAll('image');
+    tweenTo(first, 2);
+    tweenTo(second, '+=3');
+    expect(OffsetPathPlugin.getOffset(first)).toBe(5);
+    expect(boxOf(root.querySelector('path')!)).toEqual({ x: -5, y: -5, width: 20, height: 20 });
+  });
+});
+
+describe('CSS clip-path: path()', () => {
+  // Bounding box of the path data in an inline clip-path
+  const clipBox = (el: HTMLElement) => measurePath(/"(.*)"/.exec(el.style.clipPath)?.[1] ?? '').bbox;
+
+  it("offsets the path and writes it back to the element's inline style", () => {
+    document.body.innerHTML = '<div style="clip-path: path(evenodd, \'M0 0 H200 V120 H0 Z\')"></div>';
+    const div = document.querySelector('div')!;
+    tweenTo(div, { offset: 4, joinType: JoinType.Miter });
+    expect(div.style.clipPath).toMatch(/^path\(evenodd, ".*"\)$/);
+    expect(clipBox(div)).toEqual({ x: -4, y: -4, width: 208, height: 128 });
+  });
+
+  it('clips the element away once the shape collapses', () => {
+    document.body.innerHTML = '<div style="clip-path: path(\'M0 0 H20 V20 H0 Z\')"></div>';
+    const div = document.querySelector('div')!;
+    tweenTo(div, -12);
+    expect(div.style.clipPath).toBe('path("M0 0")');
+  });
+});
+
+describe('kill and revert', () => {
+  it('puts a shared clip path back once every element using it lets go', () => {
+    const root = svg(`<clipPath id="reveal"><path d="${SQUARE}"/></clipPath>` +
+      '<image clip-path="url(#reveal)"/><image clip-path="url(#reveal)"/>');
+    const [first, second] = root.querySelectorAll('image');
+    const clip = root.querySelector('path')!;
+    const tween = tweenTo(first, 2);
+    tweenTo(second, '+=3', 0.5).revert();
+    expect(boxOf(clip)).toEqual({ x: -2, y: -2, width: 14, height: 14 });
+
+    tween.kill(first, 'offsetPath');
+    expect(clip.getAttribute('d')).toBe(SQUARE);
+    expect(OffsetPathPlugin.getOffset(first)).toBe(0);
+  });
+
+  it("puts back the element's inline clip-path", () => {
+    document.body.innerHTML = '<div style="clip-path: path(\'M0 0 H20 V20 H0 Z\')"></div>';
+    const div = document.querySelector('div')!;
+    const before = div.style.clipPath;
+    const tween = tweenTo(div, 4, 0.5);
+    expect(div.style.clipPath).not.toBe(before);
+
+    tween.kill(div, 'offsetPath');
+    expect(div.style.clipPath).toBe(before);
+    expect(OffsetPathPlugin.getState(div)).toBeNull();
+  });
+});
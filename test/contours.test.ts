@@ -0,0 +1,128 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from 'vitest';
+import gsap from 'gsap';
+import { OffsetPathPlugin, offsetContours, offsetPathData, EndType } from '../src/index';
+import { measurePath } from '../src/offset';
+import { svg, tweenTo } from './dom';
+
+const SQUARE = 'M0 0 H100 V100 H0 Z';
+
+const rings = (root: Element) => root.querySelectorAll<SVGPathElement>('[data-offset-contour]');
+
+describe('offsetContours', () => {
+  it('offsets by every multiple of the step', () => {
+    expect(offsetContours(SQUARE, { step: -10, count: 3 }))
+      .toEqual([-10, -20, -30].map((offset) => offsetPathData(SQUARE, { offset })));
+    expect(offsetContours(SQUARE, { step: 5, count: 2 }))
+      .toEqual([5, 10].map((offset) => offsetPathData(SQUARE, { offset })));
+  });
+
+  it('stops insets where the shape collapses', () => {
+    expect(offsetContours(SQUARE, { step: -20 })).toHaveLength(2);
+    expect(offsetContours(SQUARE, { step: -20, count: 5 })).toHaveLength(2);
+  });
+
+  it('spreads a count of insets evenly down to the collapse', () => {
+    const widths = offsetContours(SQUARE, { count: 4 }).map((d) => measurePath(d).bbox!.width);
+    [80, 60, 40, 20].forEach((width, k) => expect(widths[k]).toBeCloseTo(width, 1));
+  });
+
+  it.each([
+    ['a step of 0', { step: 0, count: 2 }],
+    ['a fractional count', { step: -5, count: 1.5 }],
+    ['neither a step nor a count', {}],
+    ['outsets without a count', { step: 5 }],
+    ['an even spread of outlines', { count: 3, endType: EndType.Round }],
+  ])('rejects %s', (_, options) => {
+    expect(() => offsetContours(SQUARE, options)).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+});
+
+describe('contour mode', () => {
+  it('draws k × offset on sibling rings, leaving the element alone', () => {
+    const root = svg(`<path d="${SQUARE}" fill="red" class="mark"/>`);
+    const el = root.querySelector('path')!;
+    tweenTo(el, { offset: -10, contours: 3 });
+    expect(el.getAttribute('d')).toBe(SQUARE);
+    expect(Array.from(rings(root), (ring) => ring.getAttribute('d'))).toEqual(offsetContours(SQUARE, { step: -10, count: 3 }));
+    for (const ring of rings(root)) {
+      expect(ring.getAttribute('fill')).toBe('red');
+      expect(ring.getAttribute('class')).toBe('mark');
+    }
+  });
+
+  it('stacks inset rings in front of the element and outset rings behind it', () => {
+    const inset = svg(`<path d="${SQUARE}"/>`);
+    tweenTo(inset.querySelector('path')!, { offset: -10, contours: 2 });
+    expect(Array.from(inset.children, (el) => el.getAttribute('data-offset-contour'))).toEqual([null, '1', '2']);
+
+    const outset = svg(`<path d="${SQUARE}"/>`);
+    tweenTo(outset.querySelector('path')!, { offset: 10, contours: 2 });
+    expect(Array.from(outset.children, (el) => el.getAttribute('data-offset-contour'))).toEqual(['2', '1', null]);
+  });
+
+  it('starts each ring `stagger` after the one before', () => {
+    const root = svg(`<path d="${SQUARE}"/>`);
+    const el = root.querySelector('path')!;
+    // Each ring runs over half the tween: 0 → 0.5, 0.25 → 0.75 and 0.5 → 1
+    const tween = tweenTo(el, { offset: -10, contours: 3, stagger: 0.25 }, 0.25);
+    expect(Array.from(rings(root), (ring) => OffsetPathPlugin.getOffset(ring))).toEqual([-5, 0, 0]);
+    tween.progress(0.75);
+    expect(Array.from(rings(root), (ring) => OffsetPathPlugin.getOffset(ring))).toEqual([-10, -20, -15]);
+  });
+
+  it('hides rings past the collapse', () => {
+    const root = svg(`<path d="${SQUARE}"/>`);
+    tweenTo(root.querySelector('path')!, { offset: -30, contours: 3 });
+    expect(Array.from(rings(root), (ring) => ring.style.visibility)).toEqual(['visible', 'hidden', 'hidden']);
+  });
+
+  it('animates the same rings in a follow-up tween, adding or removing rings to match', () => {
+    const root = svg(`<path d="${SQUARE}"/>`);
+    const el = root.querySelector('path')!;
+    tweenTo(el, { offset: -10, contours: 3 });
+    const [first] = rings(root);
+    const tween = tweenTo(el, { offset: '+=5', contours: 2 }, 0);
+    expect(rings(root)).toHaveLength(2);
+    expect(rings(root)[0]).toBe(first);
+    // Each ring starts where it was left, and '+=' adds to the spacing
+    expect(Array.from(rings(root), (ring) => OffsetPathPlugin.getOffset(ring))).toEqual([-10, -20]);
+    tween.progress(1);
+    expect(Array.from(rings(root), (ring) => OffsetPathPlugin.getOffset(ring))).toEqual([-5, -10]);
+  });
+
+  it('runs the callbacks for each ring', () => {
+    const root = svg(`<path d="${SQUARE}"/>`);
+    const onOffsetUpdate = vi.fn();
+    tweenTo(root.querySelector('path')!, { offset: -10, contours: 2, onOffsetUpdate });
+    const targets = onOffsetUpdate.mock.calls.map(([, , target]) => target);
+    expect(new Set(targets)).toEqual(new Set(rings(root)));
+    expect(OffsetPathPlugin.getState(rings(root)[1])).toMatchObject({ offset: -20, collapsed: false });
+  });
+});
+
+describe('kill and revert', () => {
+  it('removes the rings when the offsetPath is killed', () => {
+    const root = svg(`<path d="${SQUARE}"/>`);
+    const el = root.querySelector('path')!;
+    tweenTo(el, { offset: -10, contours: 3 }, 0.5);
+    expect(rings(root)).toHaveLength(3);
+
+    gsap.killTweensOf(el, 'offsetPath');
+    expect(rings(root)).toHaveLength(0);
+    expect(el.getAttribute('d')).toBe(SQUARE);
+    expect(root.children).toHaveLength(1);
+  });
+
+  it('removes the rings when the tween is reverted', () => {
+    const root = svg('<circle cx="50" cy="50" r="40"/>');
+    const circle = root.querySelector('circle')!;
+    const tween = tweenTo(circle, { offset: 6, contours: 2 }, 0.5);
+    expect(rings(root)).toHaveLength(2);
+
+    tween.revert();
+    expect(rings(root)).toHaveLength(0);
+    expect(circle.getAttribute('r')).toBe('40');
+    expect(OffsetPathPlugin.getOffset(circle)).toBe(0);
+  });
+});
@@ -0,0 +1,23 @@
+import gsap from 'gsap';
+import { OffsetPathPlugin } from '../src/index';
+import { measurePath } from '../src/offset';
+
+// Helpers for the tests that run tweens in happy-dom
+
+gsap.registerPlugin(OffsetPathPlugin);
+
+/** Replaces the document's content with an <svg> holding `markup`. */
+export function svg(markup: string): SVGSVGElement {
+  document.body.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg">${markup}</svg>`;
+  return document.querySelector('svg')!;
+}
+
+/** Runs a paused tween of `target` to `offsetPath` through to `progress`. */
+export function tweenTo(target: Element, offsetPath: unknown, progress = 1): gsap.core.Tween {
+  return gsap.to(target, { offsetPath, duration: 1, ease: 'none', paused: true }).progress(progress);
+}
+
+/** Bounding box of the path data an element was left with */
+export function boxOf(el: Element, attribute = 'd') {
+  return measurePath(el.getAttribute(attribute) ?? '').bbox;
+}
@@ -0,0 +1,23 @@
+// Fixture corpus shared by the engine, geometry and golden tests
+
+/** Closed outlines, offset as filled polygons */
+export const FIXTURES: Record<string, string> = {
+  square: 'M 0 0 L 100 0 L 100 100 L 0 100 Z',
+  star: 'M50 0 L61 35 L98 35 L68 57 L79 91 L50 70 L21 91 L32 57 L2 35 L39 35 Z',
+  circle: 'M 10 50 A 40 40 0 1 0 90 50 A 40 40 0 1 0 10 50 Z',
+  donut: 'M 0 0 H 100 V 100 H 0 Z M 30 30 H 70 V 70 H 30 Z',
+  islands: 'M 0 0 H 40 V 40 H 0 Z M 60 0 H 100 V 40 H 60 Z',
+  notch: 'M 0 0 H 100 V 100 H 60 V 30 H 40 V 100 H 0 Z',
+  curve: 'M 0 50 C 0 0 100 0 100 50 Q 50 120 0 50 Z',
+  // Drawn the other way round, in relative commands
+  ccw: 'm 0 0 v 60 h 80 l -20 -30 l 20 -30 z',
+  // A hole drawn the same way round as its outline
+  frame: 'M 0 0 H 90 V 90 H 0 Z M 20 20 H 70 V 70 H 20 Z',
+};
+
+/** Open paths, outlined on both sides */
+export const OUTLINES: Record<string, string> = {
+  wave: 'M 0 50 C 25 0 75 100 100 50',
+  zigzag: 'M 0 0 L 20 40 L 40 0 L 60 40 L 80 0',
+  hook: 'M 10 90 V 30 A 30 30 0 0 1 70 30 V 50',
+};
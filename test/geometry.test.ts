@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { offsetPathData, flatten, JoinType, EndType } from '../src/index';
+import type { OffsetPathOptions, Pt } from '../src/index';
+import { measurePath } from '../src/offset';
+import { FIXTURES, OUTLINES } from './fixtures';
+
+// ---------------------------------------------------------------------------
+// Geometric invariants of the built-in engine, checked on the fixture corpus
+// ---------------------------------------------------------------------------
+
+const JOINS: Omit<OffsetPathOptions, 'offset'>[] = [
+  { joinType: JoinType.Round },
+  { joinType: JoinType.Miter, miterLimit: 4 },
+  { joinType: JoinType.Bevel },
+  { joinType: JoinType.Square },
+];
+
+const OFFSETS = [-12, -3, 4, 15];
+
+// Output is written to 2 decimals; curves are flattened the same way on both sides
+const TOLERANCE = 0.02;
+
+type Segment = [Pt, Pt];
+
+// Edges of the outline; none once it has collapsed
+function segments(d: string): Segment[] {
+  if (!d) return [];
+  return flatten(d).flatMap(({ points, closed }) =>
+    points.slice(closed ? 0 : 1).map((p, i): Segment => (closed ? [p, points[(i + 1) % points.length]] : [points[i], p])));
+}
+
+function distanceToSegment(p: Pt, [a, b]: Segment): number {
+  const dx = b[0] - a[0], dy = b[1] - a[1];
+  const l2 = dx * dx + dy * dy;
+  const t = l2 > 0 ? Math.min(Math.max(((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / l2, 0), 1) : 0;
+  return Math.hypot(p[0] - a[0] - t * dx, p[1] - a[1] - t * dy);
+}
+
+function distanceTo(p: Pt, outline: Segment[]): number {
+  return Math.min(...outline.map((s) => distanceToSegment(p, s)));
+}
+
+// Every vertex of the outline and the middle of every edge
+function samples(d: string): Pt[] {
+  return segments(d).flatMap(([a, b]): Pt[] => [a, [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2]]);
+}
+
+function orientation(a: Pt, b: Pt, c: Pt): number {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+}
+
+// Pairs of edges that cross each other (touching is allowed), by a sweep along x
+function crossings(d: string): Segment[][] {
+  const edges = segments(d).map((s) => ({ s, minX: Math.min(s[0][0], s[1][0]), maxX: Math.max(s[0][0], s[1][0]) }));
+  edges.sort((e, f) => e.minX - f.minX);
+  const found: Segment[][] = [];
+  for (let i = 0; i < edges.length; i++) {
+    const [a, b] = edges[i].s;
+    for (let j = i + 1; j < edges.length && edges[j].minX <= edges[i].maxX; j++) {
+      const [c, e] = edges[j].s;
+      if (orientation(a, b, c) * orientation(a, b, e) < 0 && orientation(c, e, a) * orientation(c, e, b) < 0) {
+        found.push([edges[i].s, edges[j].s]);
+      }
+    }
+  }
+  return found;
+}
+
+const CASES = [
+  ...Object.entries(FIXTURES).map(([name, d]) => ({ name, d, endType: EndType.Polygon })),
+  ...Object.entries(OUTLINES).map(([name, d]) => ({ name, d, endType: EndType.Round })),
+];
+
+describe('area', () => {
+  for (const { name, d, endType } of CASES) {
+    for (const join of JOINS) {
+      it(`grows with the offset: ${name}, join ${JoinType[join.joinType!]}`, () => {
+        let last = 0;
+        for (let offset = endType === EndType.Polygon ? -20 : 1; offset <= 20; offset += 2) {
+          const area = measurePath(offsetPathData(d, { offset, endType, ...join })).area;
+          // Rounding to 2 decimals moves the area by about the perimeter × 0.005
+          expect(area).toBeGreaterThanOrEqual(last - 0.5 - 1e-3 * last);
+          last = area;
+        }
+      });
+    }
+  }
+});
+
+describe('distance to the source', () => {
+  for (const { name, d, endType } of CASES) {
+    const source = segments(d);
+    for (const join of JOINS) {
+      for (const offset of endType === EndType.Polygon ? OFFSETS : OFFSETS.filter((o) => o > 0)) {
+        it(`${name}, join ${JoinType[join.joinType!]}, offset ${offset}`, () => {
+          const result = offsetPathData(d, { offset, endType, ...join });
+          // Corners reach out at most as far as a miter, or a square's diagonal;
+          // bevels and squares cut across them, closer in
+          const reach = join.joinType === JoinType.Round ? 1 : Math.max(join.miterLimit ?? 1, Math.SQRT2);
+          const cuts = join.joinType === JoinType.Bevel || join.joinType === JoinType.Square;
+          for (const p of samples(result)) {
+            const distance = distanceTo(p, source);
+            if (!cuts) expect(distance).toBeGreaterThan(Math.abs(offset) - TOLERANCE);
+            expect(distance).toBeLessThan(Math.abs(offset) * reach + TOLERANCE);
+          }
+        });
+      }
+    }
+  }
+});
+
+describe('self-intersections', () => {
+  for (const { name, d, endType } of CASES) {
+    for (const join of JOINS) {
+      it(`none in ${name}, join ${JoinType[join.joinType!]}`, () => {
+        for (const offset of endType === EndType.Polygon ? OFFSETS : OFFSETS.filter((o) => o > 0)) {
+          expect(crossings(offsetPathData(d, { offset, endType, ...join })), `offset ${offset}`).toEqual([]);
+        }
+      });
+    }
+  }
+});
+
+describe('inverse offset', () => {
+  // Mitred without a limit, an offset and its inverse put every corner back,
+  // as long as no feature of the shape is narrower than the offset
+  const mitre = { joinType: JoinType.Miter, miterLimit: 100 };
+  const ROUND_TRIPS: [string, number][] = [
+    ['square', 10], ['square', -10], ['star', 4], ['star', -2], ['circle', 8], ['circle', -8],
+    ['donut', 6], ['donut', -6], ['islands', 5], ['notch', 6], ['notch', -6], ['ccw', 5], ['frame', -5],
+  ];
+
+  for (const [name, offset] of ROUND_TRIPS) {
+    it(`${name} by ${offset} and back`, () => {
+      const d = FIXTURES[name];
+      const back = offsetPathData(offsetPathData(d, { offset, ...mitre }), { offset: -offset, ...mitre });
+      const source = segments(d), result = segments(back);
+      for (const p of samples(back)) expect(distanceTo(p, source)).toBeLessThan(TOLERANCE);
+      for (const p of samples(d)) expect(distanceTo(p, result)).toBeLessThan(TOLERANCE);
+    });
+  }
+});
+
+describe('far from the origin', () => {
+  // The same outlines moved a billion units away, where the integer grid
+  // can't hold the coordinates themselves
+  const FAR = 1e9;
+  const moved = (d: string): string => d.replace(/[-\d.]+ [-\d.]+/g, (pair) => pair.split(' ').map((v) => Number(v) + FAR).join(' '));
+
+  for (const name of ['square', 'star', 'curve']) {
+    for (const join of JOINS) {
+      it(`${name}, join ${JoinType[join.joinType!]}`, () => {
+        for (const offset of [-6, 5]) {
+          const near = flatten(offsetPathData(FIXTURES[name], { offset, ...join }));
+          const far = flatten(offsetPathData(moved(FIXTURES[name]), { offset, ...join }));
+          expect(far.map((ring) => ring.points.length)).toEqual(near.map((ring) => ring.points.length));
+          far.forEach((ring, i) => ring.points.forEach(([x, y], j) => {
+            expect(Math.abs(x - FAR - near[i].points[j][0])).toBeLessThan(TOLERANCE);
+            expect(Math.abs(y - FAR - near[i].points[j][1])).toBeLessThan(TOLERANCE);
+          }));
+        }
+      });
+    }
+  }
+});
@@ -0,0 +1,88 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { offsetPathData, JoinType, EndType } from '../src/index';
+import type { OffsetPathOptions } from '../src/index';
+import { measurePath } from '../src/offset';
+import { FIXTURES, OUTLINES } from './fixtures';
+import { blankImage, fill, countDifferences, encodePng, decodePng } from './raster';
+
+// ---------------------------------------------------------------------------
+// Golden outputs: offset path data as vitest snapshots (`pnpm test -u` to
+// accept changes), and contour plates rasterised to PNG in test/golden
+// (UPDATE_GOLDEN=1 to rewrite them; missing ones are written outside CI).
+// ---------------------------------------------------------------------------
+
+const GOLDEN = new URL('./golden/', import.meta.url).pathname;
+const UPDATE = !!process.env.UPDATE_GOLDEN;
+
+const JOINS: Omit<OffsetPathOptions, 'offset'>[] = [
+  { joinType: JoinType.Round },
+  { joinType: JoinType.Miter, miterLimit: 4 },
+  { joinType: JoinType.Bevel },
+  { joinType: JoinType.Square },
+];
+
+// Round joins are written as arcs, which keeps the snapshots readable
+const FORMAT = { compact: true, curveTolerance: 0.05 };
+
+const CASES = [
+  ...Object.entries(FIXTURES).map(([name, d]) => ({ name, d, endType: EndType.Polygon, offsets: [-8, -3, 4, 12] })),
+  ...Object.entries(OUTLINES).map(([name, d]) => ({ name, d, endType: EndType.Round, offsets: [2, 6] })),
+];
+
+describe('golden path data', () => {
+  for (const { name, d, endType, offsets } of CASES) {
+    for (const options of JOINS) {
+      it(`${name}, join ${JoinType[options.joinType!]}`, () => {
+        const results = offsets.map((offset) => `${offset}: ${offsetPathData(d, { offset, endType, ...options, ...FORMAT })}`);
+        expect(results.join('\n')).toMatchSnapshot();
+      });
+    }
+  }
+});
+
+// Offsets filled from the outermost in, each a shade darker, over the source
+function contourPlate(d: string, endType: EndType, offsets: number[], options: Omit<OffsetPathOptions, 'offset'>) {
+  const size = 96;
+  const box = measurePath(d).bbox!;
+  const reach = Math.max(...offsets) * 2 + 2;
+  const side = Math.max(box.width, box.height) + reach * 2;
+  const view = { x: box.x + box.width / 2 - side / 2, y: box.y + box.height / 2 - side / 2, width: side, height: side };
+
+  const image = blankImage(size, size);
+  const layers = [...offsets, 0].sort((a, b) => b - a);
+  layers.forEach((offset, i) => {
+    // An open source has no fill of its own
+    if (offset === 0 && endType !== EndType.Polygon) return;
+    const outline = offset === 0 ? d : offsetPathData(d, { offset, endType, ...options });
+    fill(image, outline, view, Math.round(220 - (200 * (i + 1)) / layers.length));
+  });
+  return image;
+}
+
+describe('golden rasters', () => {
+  for (const { name, d, endType, offsets } of CASES) {
+    for (const options of JOINS) {
+      const file = `${name}-${JoinType[options.joinType!].toLowerCase()}.png`;
+      it(file, () => {
+        const actual = contourPlate(d, endType, offsets, options);
+        const path = join(GOLDEN, file);
+        if (UPDATE || (!existsSync(path) && !process.env.CI)) {
+          mkdirSync(GOLDEN, { recursive: true });
+          writeFileSync(path, encodePng(actual));
+          return;
+        }
+        const expected = decodePng(readFileSync(path));
+        const differences = countDifferences(actual, expected);
+        // Anti-aliasing may shift along an edge; anything more is a change in shape
+        if (differences > (actual.width * actual.height) / 500) {
+          const out = join(tmpdir(), `offset-path-${file}`);
+          writeFileSync(out, encodePng(actual));
+          expect.fail(`${differences} pixels differ from test/golden/${file}; this run's image is ${out}`);
+        }
+      });
+    }
+  }
+});
@@ -0,0 +1,98 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { OffsetPathPlugin, OffsetPathError } from '../src/index';
+import { svg, tweenTo, boxOf } from './dom';
+
+// Two 10 × 10 squares, 10 apart
+const PAIR = '<g><path d="M0 0 H10 V10 H0 Z"/><rect x="20" y="0" width="10" height="10"/></g>';
+
+describe('group targets', () => {
+  it('offsets every member by the same amount', () => {
+    const root = svg(PAIR);
+    tweenTo(root.querySelector('g')!, 3);
+    // The rect is drawn by a <path> in its place
+    const [first, second] = root.querySelectorAll('path');
+    expect(boxOf(first)).toEqual({ x: -3, y: -3, width: 16, height: 16 });
+    expect(boxOf(second)).toEqual({ x: 17, y: -3, width: 16, height: 16 });
+  });
+
+  it("anchors the group's combined box, moving every member alike", () => {
+    const root = svg(PAIR.replace('<rect x="20" y="0" width="10" height="10"/>', '<path d="M20 0 H30 V10 H20 Z"/>'));
+    tweenTo(root.querySelector('g')!, { offset: 5, originX: 0, originY: 0 });
+    const [first, second] = root.querySelectorAll('path');
+    // The group's top left corner stays: both pieces move by (5, 5)
+    expect(boxOf(first)).toEqual({ x: 0, y: 0, width: 20, height: 20 });
+    expect(boxOf(second)).toEqual({ x: 20, y: 0, width: 20, height: 20 });
+  });
+
+  it('leaves shapes in <defs> alone', () => {
+    const root = svg(`<g><defs><path id="hidden" d="M0 0 H4 V4 Z"/></defs>${PAIR}</g>`);
+    tweenTo(root.querySelector('g')!, 2);
+    expect(root.querySelector('#hidden')!.getAttribute('d')).toBe('M0 0 H4 V4 Z');
+  });
+
+  it('rejects <text>, pointing at its outlines', () => {
+    const root = svg('<text>Logo</text>');
+    expect(() => tweenTo(root.querySelector('text')!, { offset: 2, strict: true }))
+      .toThrow(expect.objectContaining({ code: 'InvalidTarget' }));
+  });
+
+  it('rejects a group with nothing to offset', () => {
+    const root = svg('<g><text>Logo</text></g>');
+    expect(() => tweenTo(root.querySelector('g')!, { offset: 2, strict: true })).toThrow(OffsetPathError);
+  });
+});
+
+describe('merge', () => {
+  it('draws the union of the members with one path', () => {
+    const root = svg(PAIR);
+    const group = root.querySelector('g')!;
+    tweenTo(group, { offset: 6, merge: true });
+    const merged = group.querySelector('[data-offset-merge]')!;
+    // Grown by 6, the pieces overlap: one outline around both
+    expect(merged.getAttribute('d')!.match(/M/g)).toHaveLength(1);
+    expect(boxOf(merged)).toEqual({ x: -6, y: -6, width: 42, height: 22 });
+    for (const member of group.querySelectorAll('path:not([data-offset-merge]), rect')) {
+      expect((member as SVGElement).style.visibility).toBe('hidden');
+    }
+    expect(OffsetPathPlugin.getState(group)?.d).toBe(merged.getAttribute('d'));
+  });
+
+  it('shows the members again at offset 0', () => {
+    const root = svg(PAIR);
+    const group = root.querySelector('g')!;
+    const tween = tweenTo(group, { offset: 6, merge: true });
+    tween.progress(0);
+    expect(group.querySelector('[data-offset-merge]')).toBeNull();
+    for (const member of group.querySelectorAll('path, rect')) {
+      expect((member as SVGElement).style.visibility).not.toBe('hidden');
+    }
+  });
+});
+
+describe('kill and revert', () => {
+  it('puts the group back once the last of two tweens on it is killed', () => {
+    const root = svg(PAIR);
+    const group = root.querySelector('g')!;
+    const before = group.innerHTML;
+    const first = tweenTo(group, 3);
+    const second = tweenTo(group, { offset: 6, merge: true }, 0.5);
+
+    first.kill(group, 'offsetPath');
+    expect(group.querySelector('[data-offset-merge]')).not.toBeNull();
+    expect(OffsetPathPlugin.getOffset(group)).toBe(4.5);
+
+    second.kill(group, 'offsetPath');
+    expect(group.innerHTML).toBe(before);
+    expect(OffsetPathPlugin.getOffset(group)).toBe(0);
+    expect(OffsetPathPlugin.getState(group.querySelector('path')!)).toBeNull();
+  });
+
+  it('puts the group back when the tween is reverted', () => {
+    const root = svg(PAIR);
+    const group = root.querySelector('g')!;
+    const before = group.innerHTML;
+    tweenTo(group, 3, 0.5).revert();
+    expect(group.innerHTML).toBe(before);
+  });
+});
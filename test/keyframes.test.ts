@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { offsetPathData, offsetKeyframes, toCssKeyframes, toSmilAnimate, flatten } from '../src/index';
+import { measurePath } from '../src/offset';
+import { FIXTURES } from './fixtures';
+
+// Commands of path data, numbers left out
+const commands = (d: string) => d.replace(/[^A-Za-z]+/g, '');
+const widthOf = (d: string) => measurePath(d).bbox!.width;
+
+describe('empty path data', () => {
+  it.each([
+    ['', 'EmptyPath'],
+    ['   ', 'EmptyPath'],
+    ['X 10', 'InvalidPathData'],
+  ])('%j throws %s', (d, code) => {
+    const error = expect.objectContaining({ code });
+    expect(() => offsetPathData(d, 5)).toThrow(error);
+    expect(() => offsetKeyframes(d, { to: 5 })).toThrow(error);
+    expect(() => offsetPathData(d, { offset: 5, strokeOutline: true })).toThrow(error);
+    expect(() => offsetKeyframes(d, { to: 5, strokeOutline: { width: 0 } })).toThrow(error);
+  });
+
+  it("is '' when the stroke draws nothing", () => {
+    const strokeOutline = { width: 0 };
+    expect(offsetPathData(FIXTURES.square, { offset: 5, strokeOutline })).toBe('');
+    expect(offsetKeyframes(FIXTURES.square, { to: 5, frames: 3, strokeOutline })).toEqual(['', '', '']);
+  });
+});
+
+describe('offsetKeyframes', () => {
+  it('samples 11 frames from 0 to `to` by default', () => {
+    const frames = offsetKeyframes(FIXTURES.square, { to: 10 });
+    expect(frames).toHaveLength(11);
+    expect(widthOf(frames[0])).toBeCloseTo(100, 1);
+    expect(widthOf(frames[5])).toBeCloseTo(110, 1);
+    expect(widthOf(frames[10])).toBeCloseTo(120, 1);
+  });
+
+  it('starts from `from`', () => {
+    const frames = offsetKeyframes(FIXTURES.square, { from: -10, to: 10, frames: 3 });
+    expect(frames.map(widthOf).map(Math.round)).toEqual([80, 100, 120]);
+  });
+
+  it('writes every frame with the same commands and vertex count', () => {
+    for (const name of ['star', 'circle', 'donut', 'curve']) {
+      const frames = offsetKeyframes(FIXTURES[name], { from: -6, to: 12, frames: 5 });
+      for (const frame of frames) {
+        expect(commands(frame)).toBe(commands(frames[0]));
+        expect(flatten(frame).map(({ points }) => points.length)).toEqual(flatten(frames[0]).map(({ points }) => points.length));
+      }
+    }
+  });
+
+  it('gives every subpath `pointCount` vertices, at least 32 by default', () => {
+    expect(flatten(offsetKeyframes(FIXTURES.square, { to: 5, frames: 2 })[1])[0].points).toHaveLength(32);
+    expect(flatten(offsetKeyframes(FIXTURES.square, { to: 5, frames: 2, pointCount: 12 })[1])[0].points).toHaveLength(12);
+  });
+
+  it('spaces frames in time through `ease`', () => {
+    const frames = offsetKeyframes(FIXTURES.square, { to: 10, frames: 3, ease: (t) => t * t });
+    expect(widthOf(frames[1])).toBeCloseTo(105, 1);
+  });
+
+  it('draws a collapsed subpath as a point at its centre in the nearest frame', () => {
+    // The hole closes between the second frame and the third
+    const frames = offsetKeyframes(FIXTURES.donut, { to: 30, frames: 3 });
+    const hole = flatten(frames[2])[1].points;
+    expect(flatten(frames[2])).toHaveLength(2);
+    for (const [x, y] of hole) {
+      expect(x).toBeCloseTo(50, 1);
+      expect(y).toBeCloseTo(50, 1);
+    }
+  });
+
+  it("is '' in every frame only when the shape is collapsed in all of them", () => {
+    expect(offsetKeyframes(FIXTURES.square, { from: -60, to: -80, frames: 3 })).toEqual(['', '', '']);
+    const frames = offsetKeyframes(FIXTURES.square, { to: -60, frames: 3 });
+    expect(frames[2]).not.toBe('');
+    for (const [x, y] of flatten(frames[2])[0].points) {
+      expect(x).toBeCloseTo(50, 1);
+      expect(y).toBeCloseTo(50, 1);
+    }
+  });
+
+  it.each([
+    ['frames under 2', { to: 5, frames: 1 }],
+    ['fractional frames', { to: 5, frames: 2.5 }],
+    ['a `to` of NaN', { to: NaN }],
+    ['an infinite `from`', { from: -Infinity, to: 5 }],
+    ['an ease that is not a function', { to: 5, ease: 'power2' as unknown as () => number }],
+    ['an ease giving NaN', { to: 5, ease: () => NaN }],
+  ])('rejects %s', (_, options) => {
+    expect(() => offsetKeyframes(FIXTURES.square, options)).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+});
+
+describe('toCssKeyframes', () => {
+  it('animates `d` through the frames, spaced evenly', () => {
+    expect(toCssKeyframes(['M 0 0 L 1 0 Z', 'M 0 0 L 2 0 Z', ''], 'grow')).toBe([
+      '@keyframes grow {',
+      '  0% { d: path("M 0 0 L 1 0 Z"); }',
+      '  50% { d: path("M 0 0 L 2 0 Z"); }',
+      '  100% { d: none; }',
+      '}',
+    ].join('\n'));
+  });
+
+  it('rounds percentages to three decimals', () => {
+    expect(toCssKeyframes(['M 0 0', 'M 1 1', 'M 2 2', 'M 3 3'], 'x')).toContain('  33.333% { d: path("M 1 1"); }');
+  });
+
+  it('rejects fewer than two frames, and names that are not CSS identifiers', () => {
+    const error = expect.objectContaining({ code: 'InvalidOption' });
+    expect(() => toCssKeyframes(['M 0 0'], 'grow')).toThrow(error);
+    expect(() => toCssKeyframes(['M 0 0', 'M 1 1'], '1st')).toThrow(error);
+    expect(() => toCssKeyframes(['M 0 0', 'M 1 1'], 'a b')).toThrow(error);
+  });
+});
+
+describe('toSmilAnimate', () => {
+  it('animates `d` through the frames in 1s by default', () => {
+    expect(toSmilAnimate(['M 0 0', 'M 1 1', 'M 2 2'])).toBe(
+      '<animate attributeName="d" dur="1s" values="M 0 0;M 1 1;M 2 2" keyTimes="0;0.5;1"/>');
+  });
+
+  it('adds the attributes given, and escapes them', () => {
+    const animate = toSmilAnimate(['M 0 0', 'M 1 1'], { dur: '2s', repeatCount: 'indefinite', id: 'a"<&' });
+    expect(animate).toBe('<animate attributeName="d" dur="2s" repeatCount="indefinite" id="a&quot;&lt;&amp;" values="M 0 0;M 1 1" keyTimes="0;1"/>');
+  });
+
+  it('rounds key times to four decimals', () => {
+    expect(toSmilAnimate(['M 0 0', 'M 1 1', 'M 2 2', 'M 3 3'])).toContain('keyTimes="0;0.3333;0.6667;1"');
+  });
+
+  it('rejects fewer than two frames', () => {
+    expect(() => toSmilAnimate([])).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+});
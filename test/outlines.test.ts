@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { offsetPathData, flatten, JoinType, EndType } from '../src/index';
+import { measurePath } from '../src/offset';
+
+const SEGMENT = 'M 0 0 L 100 0';
+// Two legs of 100 meeting at a right angle at (100, 0)
+const ELBOW = 'M 0 0 L 100 0 L 100 100';
+
+const box = (d: string, joinType: JoinType, endType: EndType) => measurePath(offsetPathData(d, { offset: 5, joinType, endType })).bbox;
+
+describe('open paths', () => {
+  const outline = (endType: EndType) => offsetPathData(ELBOW, { offset: 5, joinType: JoinType.Miter, endType });
+
+  it('outlines both sides of the path as one ring', () => {
+    expect(flatten(outline(EndType.Butt))).toHaveLength(1);
+    expect(measurePath(outline(EndType.Butt)).bbox).toEqual({ x: 0, y: -5, width: 105, height: 105 });
+  });
+
+  it('ends butt caps at the ends, and square caps half the width past them', () => {
+    // Both sides run 100 along the legs but for the corner, where one gains what the other loses
+    expect(measurePath(outline(EndType.Butt)).area).toBeCloseTo(2000, 6);
+    expect(measurePath(outline(EndType.Square)).bbox).toEqual({ x: -5, y: -5, width: 110, height: 110 });
+    expect(measurePath(outline(EndType.Square)).area).toBeCloseTo(2100, 6);
+  });
+
+  it('rounds round caps about the ends', () => {
+    const { bbox, area } = measurePath(outline(EndType.Round));
+    expect(bbox).toEqual({ x: -5, y: -5, width: 110, height: 110 });
+    expect(area).toBeCloseTo(2000 + Math.PI * 25, 0);
+  });
+
+  it('winds the outline as a filled contour', () => {
+    for (const endType of [EndType.Butt, EndType.Square, EndType.Round]) {
+      expect(measurePath(outline(endType)).area).toBeGreaterThan(0);
+    }
+  });
+
+  it('outlines closed subpaths inside and out, without caps', () => {
+    const triangle = 'M 0 0 L 100 0 L 50 80';
+    expect(flatten(offsetPathData(triangle, { offset: 5, endType: EndType.Round }))).toHaveLength(1);
+    const closed = flatten(offsetPathData(`${triangle} Z`, { offset: 5, endType: EndType.Round }));
+    expect(closed).toHaveLength(2);
+    expect(closed.every(({ closed }) => closed)).toBe(true);
+  });
+
+  it('outlines a stroke 2 × |offset| wide for negative offsets too', () => {
+    expect(offsetPathData(ELBOW, { offset: -5, joinType: JoinType.Miter, endType: EndType.Round })).toBe(outline(EndType.Round));
+  });
+});
+
+describe('EndType.Joined', () => {
+  it('outlines a lone segment, capped as its join turns round the ends', () => {
+    expect(box(SEGMENT, JoinType.Round, EndType.Joined)).toEqual(box(SEGMENT, JoinType.Round, EndType.Round));
+    expect(box(SEGMENT, JoinType.Miter, EndType.Joined)).toEqual({ x: -5, y: -5, width: 110, height: 10 });
+    expect(box(SEGMENT, JoinType.Bevel, EndType.Joined)).toEqual({ x: 0, y: -5, width: 100, height: 10 });
+  });
+
+  it('outlines segments among other subpaths too', () => {
+    const d = offsetPathData(`${SEGMENT} M 0 50 L 100 50 L 50 100 Z`, { offset: 2, endType: EndType.Joined });
+    expect(d.match(/M/g)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { offsetPathData, flatten, JoinType } from '../src/index';
+import { FIXTURES } from './fixtures';
+
+const SQUARE = 'M 0 0 L 100 0 L 100 100 L 0 100 Z';
+
+const points = (d: string) => flatten(d).flatMap(({ points }) => points);
+
+describe('path data', () => {
+  it('writes absolute commands with two decimals by default', () => {
+    expect(offsetPathData(SQUARE, { offset: 5, joinType: JoinType.Miter }))
+      .toBe('M -5.00 -5.00 L 105.00 -5.00 L 105.00 105.00 L -5.00 105.00 Z');
+  });
+
+  it('writes the shortest equivalent data when compact', () => {
+    expect(offsetPathData(SQUARE, { offset: 5, joinType: JoinType.Miter, compact: true })).toBe('M-5-5h110v110h-110z');
+    expect(offsetPathData(SQUARE, { offset: 5.25, joinType: JoinType.Miter, compact: true, precision: 1 }))
+      .toBe('M-5.3-5.3h110.6v110.6h-110.6z');
+  });
+
+  it('draws the same outline compact or not', () => {
+    const options = { offset: 6, joinType: JoinType.Round };
+    const compact = points(offsetPathData(FIXTURES.star, { ...options, compact: true }));
+    const plain = points(offsetPathData(FIXTURES.star, options));
+    expect(compact).toHaveLength(plain.length);
+    compact.forEach(([x, y], i) => {
+      expect(x).toBeCloseTo(plain[i][0], 1);
+      expect(y).toBeCloseTo(plain[i][1], 1);
+    });
+  });
+});
+
+describe('curveTolerance', () => {
+  it('writes round joins as arcs', () => {
+    expect(offsetPathData(SQUARE, { offset: 5, curveTolerance: 0.05, compact: true }))
+      .toBe('M-5 0a5 5 0 01 5-5h100a5 5 0 01 5 5v100a5 5 0 01-5 5h-100a5 5 0 01-5-5z');
+  });
+
+  it('fits curves to the outline, within the tolerance', () => {
+    // A circle of radius 40 about (50, 50), grown to 45
+    const fitted = offsetPathData(FIXTURES.circle, { offset: 5, curveTolerance: 0.05 });
+    expect(fitted).toMatch(/^M[^L]*Z$/);
+    expect(fitted.length).toBeLessThan(offsetPathData(FIXTURES.circle, 5).length / 2);
+    for (const [x, y] of points(fitted)) {
+      expect(Math.abs(Math.hypot(x - 50, y - 50) - 45)).toBeLessThan(0.1);
+    }
+  });
+
+  it('gives way to pointCount', () => {
+    const d = offsetPathData(FIXTURES.circle, { offset: 5, curveTolerance: 0.05, pointCount: 12 });
+    expect(d).not.toMatch(/[CA]/);
+    expect(d.match(/L/g)).toHaveLength(11);
+  });
+});
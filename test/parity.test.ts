@@ -0,0 +1,100 @@
+import { existsSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { OffsetPathPlugin, offsetPathData, wasmEngine, JoinType, EndType } from '../src/index';
+import type { OffsetEngine, ClipperOffsetModule, OffsetPathOptions } from '../src/index';
+import { measurePath } from '../src/offset';
+import { FIXTURES } from './fixtures';
+
+// Node build of the Clipper2 engine, made by `pnpm build:wasm`
+const PKG = new URL('../wasm/clipper-offset/pkg/clipper_offset.js', import.meta.url).pathname;
+const BUILT = existsSync(PKG);
+// PARITY=1 asks for the comparison, which then fails without a build
+// instead of being left out
+const PARITY = !!process.env.PARITY;
+
+const CASES: Omit<OffsetPathOptions, 'offset'>[] = [
+  { joinType: JoinType.Round },
+  { joinType: JoinType.Miter, miterLimit: 4 },
+  { joinType: JoinType.Bevel },
+  { joinType: JoinType.Square },
+];
+
+const OFFSETS = [-12, -3, 4, 15];
+
+afterEach(() => OffsetPathPlugin.useEngine(null));
+
+describe('engine selection', () => {
+  // Stands in for any engine: every offset becomes the same triangle
+  const triangle: OffsetEngine = {
+    name: 'triangle',
+    supports: (options) => options.profile === null,
+    offsetRings: () => [[[0, 0], [10000, 0], [0, 10000]]],
+  };
+
+  it('offsets with the engine set on the plugin', () => {
+    OffsetPathPlugin.useEngine(triangle);
+    expect(offsetPathData(FIXTURES.square, { offset: 5, precision: 0 })).toBe('M 0 0 L 10 0 L 0 10 Z');
+  });
+
+  it('keeps the built-in engine for options the engine does not support', () => {
+    const builtin = offsetPathData(FIXTURES.square, { offset: 5, profile: [1, 2] });
+    OffsetPathPlugin.useEngine(triangle);
+    expect(offsetPathData(FIXTURES.square, { offset: 5, profile: [1, 2] })).toBe(builtin);
+  });
+
+  it('goes back to the built-in engine with null', () => {
+    const builtin = offsetPathData(FIXTURES.star, 6);
+    OffsetPathPlugin.useEngine(triangle);
+    OffsetPathPlugin.useEngine(null);
+    expect(offsetPathData(FIXTURES.star, 6)).toBe(builtin);
+  });
+});
+
+describe.skipIf(!BUILT && !PARITY)('parity with the Clipper2 engine', () => {
+  if (!BUILT) {
+    it('needs the Node build of the Clipper2 engine', () => {
+      expect.fail(`No ${PKG}. Install Rust and wasm-pack and run \`pnpm build:wasm\`.`);
+    });
+    return;
+  }
+
+  let clipper: OffsetEngine;
+  beforeAll(() => {
+    clipper = wasmEngine(createRequire(import.meta.url)(PKG) as ClipperOffsetModule);
+  });
+
+  const both = (d: string, options: OffsetPathOptions) => {
+    OffsetPathPlugin.useEngine(null);
+    const builtin = offsetPathData(d, options);
+    OffsetPathPlugin.useEngine(clipper);
+    return [builtin, offsetPathData(d, options)];
+  };
+
+  for (const [name, d] of Object.entries(FIXTURES)) {
+    for (const options of CASES) {
+      for (const offset of OFFSETS) {
+        it(`${name}, join ${JoinType[options.joinType!]}, offset ${offset}`, () => {
+          const [builtin, wasm] = both(d, { offset, ...options });
+          expect(builtin === '').toBe(wasm === '');
+          if (!builtin) return;
+
+          const a = measurePath(builtin), b = measurePath(wasm);
+          // Both engines flatten round joins finely; the rest is rounding
+          expect(Math.abs(a.area - b.area)).toBeLessThan(Math.max(1, 0.01 * b.area));
+          for (const key of ['x', 'y', 'width', 'height'] as const) {
+            expect(a.bbox![key]).toBeCloseTo(b.bbox![key], 0);
+          }
+        });
+      }
+    }
+  }
+
+  it('outlines open paths the same way', () => {
+    for (const endType of [EndType.Butt, EndType.Square, EndType.Round]) {
+      const [builtin, wasm] = both('M 0 0 L 50 20 L 100 0', { offset: 4, endType });
+      const a = measurePath(builtin), b = measurePath(wasm);
+      expect(Math.abs(a.area - b.area)).toBeLessThan(0.01 * b.area);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { parsePath, validatePathData, offsetPathData, OffsetPathError } from '../src/index';
+
+describe('number syntax', () => {
+  it('splits numbers at signs and second decimal points', () => {
+    const [{ segs }] = parsePath('M1.5.5L-1-2l.5.5e1');
+    expect(segs.map((seg) => seg.pts.at(-1))).toEqual([[1.5, 0.5], [-1, -2], [-0.5, 3]]);
+  });
+
+  it('reads arc flags without separators', () => {
+    expect(validatePathData('M0 0a1 1 0 011 1')).toBeNull();
+  });
+
+  it('rejects an exponent without digits', () => {
+    expect(validatePathData('M1e 2')).toMatchObject({ kind: 'ExpectedNumber', position: 2, command: 'M' });
+  });
+});
+
+describe('closepath', () => {
+  it('starts a new subpath at the closed one\'s start for a command without M', () => {
+    const subpaths = parsePath('M0 0 L10 0 L10 10 Z L 20 20');
+    expect(subpaths.map(({ closed }) => closed)).toEqual([true, false]);
+    expect(subpaths[0].segs.map((seg) => seg.pts.at(-1))).toEqual([[0, 0], [10, 0], [10, 10]]);
+    expect(subpaths[1].segs.map((seg) => seg.pts.at(-1))).toEqual([[0, 0], [20, 20]]);
+  });
+
+  it('measures relative commands after Z from there', () => {
+    const [, next] = parsePath('M5 5 h10 v10 z l 3 4 z');
+    expect(next.segs.map((seg) => seg.pts.at(-1))).toEqual([[5, 5], [8, 9]]);
+    expect(next.closed).toBe(true);
+  });
+});
+
+describe('validatePathData', () => {
+  it.each([
+    ['  ', 'EmptyPath', 0, null],
+    ['10 10', 'ExpectedCommand', 0, null],
+    ['L 10 10', 'ExpectedCommand', 0, null],
+    [' z M0 0 H10 V10', 'ExpectedCommand', 1, null],
+    ['M0 0 L10 10 X5', 'UnknownCommand', 12, null],
+    ['M 0 0 L 10', 'ExpectedNumber', 10, 'L'],
+    ['M0 0 a1 1 0 2 1 5 5', 'ExpectedFlag', 12, 'a'],
+    ['M0 0 H10 V10 Z 5', 'ExpectedCommand', 15, null],
+  ])('%j: %s at %i', (d, kind, position, command) => {
+    expect(validatePathData(d)).toMatchObject({ kind, position, command });
+  });
+
+  it('counts positions in the data as given, leading whitespace included', () => {
+    expect(validatePathData('\n  M0 0 L')?.position).toBe(9);
+  });
+});
+
+describe('strict', () => {
+  const partial = 'M0 0 H10 V10 H0 Z L5';
+
+  it('keeps the commands before an error by default', () => {
+    expect(offsetPathData(partial, 1)).not.toBe('');
+  });
+
+  it('throws the parse error in strict mode', () => {
+    let error: unknown;
+    try {
+      offsetPathData(partial, { offset: 1, strict: true });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(OffsetPathError);
+    expect(error).toMatchObject({ code: 'InvalidPathData', parseError: { kind: 'ExpectedNumber', position: 20, command: 'L' } });
+  });
+});
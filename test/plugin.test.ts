@@ -0,0 +1,162 @@
+// @vitest-environment happy-dom
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import gsap from 'gsap';
+import { OffsetPathPlugin, EndType } from '../src/index';
+import { FIXTURES } from './fixtures';
+
+beforeAll(() => {
+  gsap.registerPlugin(OffsetPathPlugin);
+});
+
+function path(d = FIXTURES.square): SVGPathElement {
+  document.body.innerHTML = `<svg><path d="${d}"/></svg>`;
+  return document.querySelector('path')!;
+}
+
+describe('cacheStep', () => {
+  it('ends the tween on the exact offset', () => {
+    const el = path();
+    const tween = gsap.to(el, { offsetPath: { offset: 10.3, cacheStep: 0.5 }, duration: 1, ease: 'none', paused: true });
+    tween.progress(0.5);
+    expect(OffsetPathPlugin.getOffset(el)).toBe(5);
+    tween.progress(1);
+    expect(OffsetPathPlugin.getOffset(el)).toBe(10.3);
+    expect(OffsetPathPlugin.getState(el)?.bbox?.width).toBeCloseTo(120.6, 1);
+  });
+
+  it('starts relative tweens from there', () => {
+    const el = path();
+    gsap.to(el, { offsetPath: { offset: 10.3, cacheStep: 0.5 }, duration: 1, paused: true }).progress(1);
+    gsap.to(el, { offsetPath: { offset: '+=1.1', cacheStep: 0.5 }, duration: 1, paused: true }).progress(1);
+    expect(OffsetPathPlugin.getOffset(el)).toBeCloseTo(11.4, 10);
+  });
+});
+
+describe('non-finite offsets', () => {
+  it.each([
+    ['NaN', NaN],
+    ['a function value giving NaN', () => NaN],
+  ])('rejects %s', (_, offset) => {
+    const el = path();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    gsap.to(el, { offsetPath: offset, duration: 1, paused: true }).progress(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('NaN or infinite'), el);
+    expect(error).not.toHaveBeenCalled();
+    expect(el.getAttribute('d')).toBe(FIXTURES.square);
+    warn.mockRestore();
+    error.mockRestore();
+  });
+
+  it('throws in strict mode', () => {
+    const el = path();
+    expect(() => gsap.to(el, { offsetPath: { offset: NaN, strict: true }, duration: 1, paused: true }).progress(1))
+      .toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+
+  it('leaves the outline as drawn when worked out from a relative value', () => {
+    const el = path();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    gsap.to(el, { offsetPath: 4, duration: 1, paused: true }).progress(1);
+    gsap.to(el, { offsetPath: '/=0', duration: 1, paused: true }).progress(1);
+    expect(error).not.toHaveBeenCalled();
+    expect(el.getAttribute('d')).toBe(FIXTURES.square);
+    error.mockRestore();
+  });
+});
+
+describe('kill and revert', () => {
+  const attributes = (el: Element) => Array.from(el.attributes, ({ name, value }) => [name, value]);
+
+  it('puts the path data back when the offsetPath is killed mid-tween', () => {
+    const el = path();
+    el.style.visibility = 'inherit';
+    const tween = gsap.to(el, { offsetPath: 10, duration: 1, paused: true }).progress(0.5);
+    expect(el.getAttribute('d')).not.toBe(FIXTURES.square);
+
+    tween.kill(el, 'offsetPath');
+    expect(el.getAttribute('d')).toBe(FIXTURES.square);
+    expect(el.style.visibility).toBe('inherit');
+    expect(OffsetPathPlugin.getState(el)).toBeNull();
+    tween.progress(1);
+    expect(el.getAttribute('d')).toBe(FIXTURES.square);
+  });
+
+  it('swaps the original shape back in for its <path>', () => {
+    document.body.innerHTML = '<svg><rect x="10" y="10" width="80" height="40" rx="5" fill="red"/></svg>';
+    const rect = document.querySelector('rect')!;
+    const before = attributes(rect);
+    gsap.to(rect, { offsetPath: { offset: 5, pointCount: 32 }, duration: 1, paused: true }).progress(0.5);
+    expect(rect.isConnected).toBe(false);
+
+    gsap.killTweensOf(rect, 'offsetPath');
+    expect(document.querySelector('rect')).toBe(rect);
+    expect(document.querySelector('path')).toBeNull();
+    expect(attributes(rect)).toEqual(before);
+  });
+
+  it('puts back the attributes of shapes offset through them', () => {
+    document.body.innerHTML = '<svg><circle cx="50" cy="50" r="20"/></svg>';
+    const circle = document.querySelector('circle')!;
+    const before = attributes(circle);
+    const tween = gsap.to(circle, { offsetPath: 5, duration: 1, paused: true }).progress(0.5);
+    expect(circle.getAttribute('r')).not.toBe('20');
+
+    tween.revert();
+    expect(attributes(circle)).toEqual(before);
+  });
+
+  it('reverts a fromTo in a context', () => {
+    const el = path();
+    const ctx = gsap.context(() => {
+      gsap.fromTo(el, { offsetPath: -30 }, { offsetPath: 0, duration: 2, paused: true }).progress(0.25);
+    });
+    expect(el.getAttribute('d')).not.toBe(FIXTURES.square);
+
+    ctx.revert();
+    expect(el.getAttribute('d')).toBe(FIXTURES.square);
+    expect(OffsetPathPlugin.getOffset(el)).toBe(0);
+  });
+
+  it('keeps the outline while another tween still offsets the element', () => {
+    const el = path();
+    const first = gsap.to(el, { offsetPath: 5, duration: 1, paused: true }).progress(1);
+    const second = gsap.to(el, { offsetPath: 10, duration: 1, ease: 'none', paused: true }).progress(0.5);
+
+    OffsetPathPlugin.revert(second);
+    expect(OffsetPathPlugin.getOffset(el)).toBe(7.5);
+    first.kill(el, 'offsetPath');
+    expect(el.getAttribute('d')).toBe(FIXTURES.square);
+  });
+
+  it('draws the start of a reverted tween while another one still offsets the element', () => {
+    const el = path();
+    gsap.to(el, { offsetPath: 5, duration: 1, paused: true }).progress(1);
+    gsap.to(el, { offsetPath: 10, duration: 1, paused: true }).progress(0.5).revert();
+    expect(OffsetPathPlugin.getOffset(el)).toBe(5);
+    expect(OffsetPathPlugin.getState(el)?.bbox?.width).toBeCloseTo(110, 1);
+  });
+});
+
+describe('open shapes', () => {
+  it.each([
+    ['<line>', '<line x1="0" y1="0" x2="100" y2="0"/>'],
+    ['<polyline>', '<polyline points="0,0 50,0 100,0"/>'],
+  ])('outlines a %s with butt ends', (_, markup) => {
+    document.body.innerHTML = `<svg>${markup}</svg>`;
+    const shape = document.querySelector('svg > *')!;
+    gsap.to(shape, { offsetPath: 5, duration: 1, paused: true }).progress(1);
+    expect(document.querySelector('path')!.style.visibility).toBe('visible');
+    expect(OffsetPathPlugin.getState(shape)).toMatchObject({
+      collapsed: false,
+      bbox: { x: 0, y: -5, width: 100, height: 10 },
+    });
+  });
+
+  it('takes the end type a tween sets', () => {
+    document.body.innerHTML = '<svg><line x1="0" y1="0" x2="100" y2="0"/></svg>';
+    const line = document.querySelector('line')!;
+    gsap.to(line, { offsetPath: { offset: 5, endType: EndType.Square }, duration: 1, paused: true }).progress(1);
+    expect(OffsetPathPlugin.getState(line)?.bbox).toMatchObject({ x: -5, width: 110 });
+  });
+});
@@ -0,0 +1,72 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { offsetPathData, flatten, JoinType } from '../src/index';
+import type { Pt } from '../src/index';
+import { FIXTURES } from './fixtures';
+import { svg, tweenTo } from './dom';
+
+const SQUARE = 'M 0 0 L 100 0 L 100 100 L 0 100 Z';
+// A square with a square hole, drawn the other way round
+const FRAME = `${SQUARE} M 40 40 L 40 60 L 60 60 L 60 40 Z`;
+
+const points = (d: string) => flatten(d).map(({ points }) => points);
+
+describe('pointCount', () => {
+  it('writes every subpath with exactly that many vertices', () => {
+    for (const offset of [-10, 0, 3, 12]) {
+      for (const joinType of [JoinType.Miter, JoinType.Round, JoinType.Bevel]) {
+        const d = offsetPathData(FIXTURES.star, { offset, joinType, pointCount: 24 });
+        expect(d).toMatch(/^[MLZ\d.\s-]+$/);
+        expect(points(d).map((ring) => ring.length)).toEqual([24]);
+      }
+    }
+    expect(points(offsetPathData(FRAME, { offset: 5, pointCount: 8 })).map((ring) => ring.length)).toEqual([8, 8]);
+  });
+
+  it('starts where the first vertex of the source moves to, running the same way', () => {
+    expect(points(offsetPathData(SQUARE, { offset: 5, joinType: JoinType.Miter, pointCount: 8 }))).toEqual([
+      [[-5, -5], [50, -5], [105, -5], [105, 50], [105, 105], [50, 105], [-5, 105], [-5, 50]],
+    ]);
+    const [, hole] = points(offsetPathData(FRAME, { offset: 5, pointCount: 4 }));
+    expect(hole).toEqual([[45, 45], [45, 55], [55, 55], [55, 45]]);
+  });
+
+  it('resamples the outline at offset 0 too', () => {
+    expect(points(offsetPathData(SQUARE, { offset: 0, pointCount: 8 }))).toEqual([
+      [[0, 0], [50, 0], [100, 0], [100, 50], [100, 100], [50, 100], [0, 100], [0, 50]],
+    ]);
+  });
+
+  it.each([0, 2, 2.5, -1])('rejects %j', (pointCount) => {
+    expect(() => offsetPathData(SQUARE, { offset: 5, pointCount })).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+});
+
+describe('pointCount tweens', () => {
+  it('keeps the commands and the place of each point from frame to frame', () => {
+    const el = svg(`<path d="${FIXTURES.star}"/>`).querySelector('path')!;
+    const tween = tweenTo(el, { offset: 10, joinType: JoinType.Round, pointCount: 40 }, 0);
+    const frames: Pt[][] = [];
+    const commands = new Set<string>();
+    for (let progress = 0; progress <= 1; progress += 0.125) {
+      tween.progress(progress);
+      const d = el.getAttribute('d')!;
+      commands.add(d.replace(/[\d.-]+/g, '#'));
+      frames.push(points(d)[0]);
+    }
+    expect(commands.size).toBe(1);
+    // An eighth of the tween moves each point by little more than an eighth of the offset
+    for (let f = 1; f < frames.length; f++) {
+      const moved = frames[f].map(([x, y], i) => Math.hypot(x - frames[f - 1][i][0], y - frames[f - 1][i][1]));
+      expect(Math.max(...moved)).toBeLessThan(3);
+    }
+  });
+
+  it('draws circles through a <path> proxy', () => {
+    const root = svg('<circle cx="50" cy="50" r="20"/>');
+    const circle = root.querySelector('circle')!;
+    tweenTo(circle, { offset: 4, pointCount: 16 });
+    expect(circle.getAttribute('r')).toBe('20');
+    expect(points(root.querySelector('path')!.getAttribute('d')!)[0]).toHaveLength(16);
+  });
+});
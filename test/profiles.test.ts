@@ -0,0 +1,88 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from 'vitest';
+import { offsetPathData, JoinType, EndType } from '../src/index';
+import type { Pt } from '../src/index';
+import { measurePath } from '../src/offset';
+import { svg, tweenTo } from './dom';
+
+const SQUARE = 'M 0 0 L 100 0 L 100 100 L 0 100 Z';
+const LINE = 'M 0 0 H 100';
+
+const box = (d: string) => measurePath(d).bbox;
+
+describe('profile functions', () => {
+  it('are called with the arc-length position, the vertex and its normal', () => {
+    const calls: [number, Pt, Pt][] = [];
+    offsetPathData(SQUARE, { offset: 4, profile: (t, point, normal) => (calls.push([t, point, normal]), 1) });
+    const [t, point, [nx, ny]] = calls[0];
+    expect([t, point]).toEqual([0, [0, 0]]);
+    // Corners move out along the bisector
+    expect(nx).toBeCloseTo(-Math.SQRT1_2, 10);
+    expect(ny).toBeCloseTo(-Math.SQRT1_2, 10);
+    // Straight edges are split so the profile has points to act on
+    const top = calls.filter(([, [x, y]]) => y === 0 && x > 0 && x < 100);
+    expect(top.length).toBeGreaterThan(8);
+    for (const [t, [x], normal] of top) {
+      expect(t).toBeCloseTo(x / 400, 3);
+      expect(normal).toEqual([0, -1]);
+    }
+    expect(calls.map(([t]) => t)).toEqual(calls.map(([t]) => t).sort((a, b) => a - b));
+  });
+
+  it('taper an open path to nothing', () => {
+    const d = offsetPathData(LINE, { offset: 8, endType: EndType.Butt, profile: (t) => 1 - t });
+    expect(box(d)).toEqual({ x: 0, y: -8, width: 100, height: 16 });
+    expect(measurePath(d).area).toBeCloseTo(800, 0);
+  });
+
+  it('turn memoised frames off', () => {
+    let scale = 1;
+    const el = svg(`<path d="${SQUARE}"/>`).querySelector('path')!;
+    const tween = tweenTo(el, { offset: 4, cacheStep: 1, joinType: JoinType.Miter, profile: () => scale }, 0.5);
+    expect(box(el.getAttribute('d')!)?.width).toBe(104);
+    scale = 2;
+    tween.progress(0.4).progress(0.5);
+    expect(box(el.getAttribute('d')!)?.width).toBe(108);
+  });
+});
+
+describe('profile keyframes', () => {
+  it('scale the offset evenly with a single stop', () => {
+    const options = { offset: 4, joinType: JoinType.Miter };
+    expect(measurePath(offsetPathData(SQUARE, { ...options, profile: [2] })))
+      .toEqual(measurePath(offsetPathData(SQUARE, { ...options, offset: 8 })));
+  });
+
+  it('wrap round closed subpaths', () => {
+    // [1, 0]: full offset at the start, none half way round at (100, 100)
+    const { x, y, width, height } = box(offsetPathData(SQUARE, { offset: 4, joinType: JoinType.Miter, profile: [1, 0] }))!;
+    expect([x, y]).toEqual([-4, -4]);
+    expect(x + width).toBeCloseTo(102, 6);
+    expect(y + height).toBeCloseTo(102, 6);
+  });
+
+  it('run end to end on open subpaths', () => {
+    const d = offsetPathData(LINE, { offset: 8, endType: EndType.Butt, profile: [1, 0] });
+    expect(d).toBe(offsetPathData(LINE, { offset: 8, endType: EndType.Butt, profile: (t) => 1 - t }));
+  });
+});
+
+describe('profile tweens', () => {
+  it('carry a profile over to following tweens until it is cleared with null', () => {
+    const el = svg(`<path d="${SQUARE}"/>`).querySelector('path')!;
+    tweenTo(el, { offset: 4, profile: [1, 2] });
+    tweenTo(el, { offset: 6 });
+    expect(el.getAttribute('d')).toBe(offsetPathData(SQUARE, { offset: 6, profile: [1, 2] }));
+    tweenTo(el, { offset: 6, profile: null });
+    expect(el.getAttribute('d')).toBe(offsetPathData(SQUARE, { offset: 6 }));
+  });
+
+  it('call the profile again as the offset animates', () => {
+    const el = svg(`<path d="${SQUARE}"/>`).querySelector('path')!;
+    const profile = vi.fn(() => 1);
+    const tween = tweenTo(el, { offset: 4, profile }, 0.25);
+    const calls = profile.mock.calls.length;
+    tween.progress(0.75);
+    expect(profile.mock.calls.length).toBeGreaterThan(calls);
+  });
+});
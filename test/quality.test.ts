@@ -0,0 +1,82 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { offsetPathData, flatten, toPathData, JoinType } from '../src/index';
+import { measurePath } from '../src/offset';
+import { FIXTURES } from './fixtures';
+import { svg, tweenTo } from './dom';
+
+const vertices = (d: string) => flatten(d).reduce((n, ring) => n + ring.points.length, 0);
+
+describe('quality', () => {
+  it('flattens curves and round joins finer as it grows', () => {
+    const counts = [0.5, 1, 2].map((quality) => vertices(offsetPathData(FIXTURES.circle, { offset: 5, quality })));
+    expect(counts[0]).toBeLessThan(counts[1]);
+    expect(counts[1]).toBeLessThan(counts[2]);
+    const joins = [0.5, 1, 2].map((quality) => vertices(offsetPathData(FIXTURES.square, { offset: 5, quality })));
+    expect(joins[0]).toBeLessThan(joins[1]);
+    expect(joins[1]).toBeLessThan(joins[2]);
+  });
+
+  it('snaps to a finer grid as it grows', () => {
+    // 0.0014 falls between steps of the grid at quality 1 (0.001 units)
+    const width = (quality: number) => {
+      const xs = flatten(offsetPathData(FIXTURES.square, { offset: 0.0014, joinType: JoinType.Miter, quality, precision: 5 }))
+        .flatMap((ring) => ring.points.map(([x]) => x));
+      return Math.max(...xs) - Math.min(...xs);
+    };
+    expect(width(1)).not.toBeCloseTo(100.0028, 4);
+    expect(width(10)).toBeCloseTo(100.0028, 4);
+  });
+
+  it.each([0, -1, NaN, 'auto'])('rejects %j without an element', (quality) => {
+    expect(() => offsetPathData(FIXTURES.square, { offset: 5, quality: quality as number }))
+      .toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+
+  it("takes the element's on-screen scale with 'auto'", () => {
+    const el = svg(`<path d="${FIXTURES.circle}"/>`).querySelector('path')!;
+    Object.assign(el, { getScreenCTM: () => ({ a: 4, b: 0, c: 0, d: 4, e: 0, f: 0 }) });
+    tweenTo(el, { offset: 5, quality: 'auto' });
+    expect(el.getAttribute('d')).toBe(offsetPathData(FIXTURES.circle, { offset: 5, quality: 4 }));
+  });
+
+  it('offsets paths larger than the grid on a coarser one', () => {
+    const huge = 'M 0 0 H 200000 V 200000 H 0 Z';
+    const box = measurePath(offsetPathData(huge, { offset: 10, joinType: JoinType.Miter })).bbox!;
+    expect(box.x).toBeCloseTo(-10, 2);
+    expect(box.width).toBeCloseTo(200020, 2);
+  });
+});
+
+describe('maxVertices', () => {
+  it('keeps every outline within the budget', () => {
+    for (const name of ['circle', 'star', 'donut', 'curve']) {
+      for (const offset of [-4, 6, 20]) {
+        const d = offsetPathData(FIXTURES[name], { offset, maxVertices: 24 });
+        for (const ring of flatten(d)) expect(ring.points.length).toBeLessThanOrEqual(24);
+      }
+    }
+  });
+
+  it('drops the vertices that change the outline least', () => {
+    const full = offsetPathData(FIXTURES.circle, 5);
+    const budget = offsetPathData(FIXTURES.circle, { offset: 5, maxVertices: 32 });
+    expect(vertices(budget)).toBeLessThan(vertices(full));
+    expect(measurePath(budget).area).toBeCloseTo(measurePath(full).area, -2);
+  });
+
+  it('keeps the corners of straight outlines', () => {
+    const d = offsetPathData(FIXTURES.square, { offset: 5, joinType: JoinType.Miter, maxVertices: 8 });
+    expect(measurePath(d).bbox).toEqual({ x: -5, y: -5, width: 110, height: 110 });
+  });
+
+  it('applies to written polylines too', () => {
+    const ring = Array.from({ length: 100 }, (_, i): [number, number] => [Math.cos(i / 50 * Math.PI) * 10, Math.sin(i / 50 * Math.PI) * 10]);
+    expect(vertices(toPathData([{ points: ring, closed: true }], { maxVertices: 12 }))).toBeLessThanOrEqual(12);
+  });
+
+  it.each([2, 1.5, -1])('rejects %j', (maxVertices) => {
+    expect(() => offsetPathData(FIXTURES.square, { offset: 5, maxVertices }))
+      .toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+});
@@ -0,0 +1,168 @@
+import { deflateSync, inflateSync } from 'node:zlib';
+import { flatten } from '../src/index';
+
+// ---------------------------------------------------------------------------
+// Headless rasteriser for the PNG snapshots
+//
+// Fills path data as an SVG fill would (nonzero), 4 × 4 samples per pixel,
+// into 8-bit greyscale images, and reads and writes those as PNG with
+// node:zlib alone, so snapshots need no browser or canvas.
+// ---------------------------------------------------------------------------
+
+export interface Image {
+  width: number;
+  height: number;
+  /** One byte per pixel, row by row */
+  pixels: Uint8Array;
+}
+
+export interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const SAMPLES = 4;
+
+export function blankImage(width: number, height: number, grey = 255): Image {
+  return { width, height, pixels: new Uint8Array(width * height).fill(grey) };
+}
+
+/** Share of each pixel that `d` covers, from 0 to 1 */
+export function coverage(d: string, view: ViewBox, width: number, height: number): Float32Array {
+  const cover = new Float32Array(width * height);
+  if (!d) return cover;
+  const sx = (width * SAMPLES) / view.width, sy = (height * SAMPLES) / view.height;
+  // Edges in sample units, closed as a fill closes them
+  const edges: [number, number, number, number][] = [];
+  for (const { points } of flatten(d)) {
+    for (let i = 0; i < points.length; i++) {
+      const [x0, y0] = points[i], [x1, y1] = points[(i + 1) % points.length];
+      edges.push([(x0 - view.x) * sx, (y0 - view.y) * sy, (x1 - view.x) * sx, (y1 - view.y) * sy]);
+    }
+  }
+
+  const weight = 1 / (SAMPLES * SAMPLES);
+  for (let row = 0; row < height * SAMPLES; row++) {
+    const y = row + 0.5;
+    const crossings: [number, number][] = [];
+    for (const [x0, y0, x1, y1] of edges) {
+      if ((y0 <= y) === (y1 <= y)) continue;
+      crossings.push([x0 + ((y - y0) / (y1 - y0)) * (x1 - x0), y1 > y0 ? 1 : -1]);
+    }
+    crossings.sort((a, b) => a[0] - b[0]);
+
+    let winding = 0;
+    for (let i = 0; i < crossings.length - 1; i++) {
+      winding += crossings[i][1];
+      if (winding === 0) continue;
+      // Samples whose centres fall inside the span
+      const from = Math.max(0, Math.ceil(crossings[i][0] - 0.5));
+      const to = Math.min(width * SAMPLES - 1, Math.ceil(crossings[i + 1][0] - 0.5) - 1);
+      const offset = Math.floor(row / SAMPLES) * width;
+      for (let col = from; col <= to; col++) cover[offset + Math.floor(col / SAMPLES)] += weight;
+    }
+  }
+  return cover;
+}
+
+/** Paints `d` over `image` in `grey`. */
+export function fill(image: Image, d: string, view: ViewBox, grey: number): void {
+  const cover = coverage(d, view, image.width, image.height);
+  for (let i = 0; i < cover.length; i++) {
+    const a = Math.min(cover[i], 1);
+    image.pixels[i] = Math.round(image.pixels[i] * (1 - a) + grey * a);
+  }
+}
+
+/** Pixels that differ by more than `threshold` grey levels */
+export function countDifferences(a: Image, b: Image, threshold = 24): number {
+  if (a.width !== b.width || a.height !== b.height) return Infinity;
+  let count = 0;
+  for (let i = 0; i < a.pixels.length; i++) {
+    if (Math.abs(a.pixels[i] - b.pixels[i]) > threshold) count++;
+  }
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// PNG
+// ---------------------------------------------------------------------------
+
+const SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4), crc = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** An 8-bit greyscale PNG of `image`. */
+export function encodePng(image: Image): Buffer {
+  const { width, height, pixels } = image;
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // greyscale
+  // Every row unfiltered
+  const raw = Buffer.alloc((width + 1) * height);
+  for (let y = 0; y < height; y++) raw.set(pixels.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  return Buffer.concat([SIGNATURE, chunk('IHDR', header), chunk('IDAT', deflateSync(raw, { level: 9 })), chunk('IEND', Buffer.alloc(0))]);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/** Reads an 8-bit greyscale PNG, as encodePng or an image editor writes it. */
+export function decodePng(png: Buffer): Image {
+  if (!png.subarray(0, 8).equals(SIGNATURE)) throw new Error('Not a PNG');
+  let width = 0, height = 0;
+  const data: Buffer[] = [];
+  for (let at = 8; at < png.length;) {
+    const length = png.readUInt32BE(at);
+    const type = png.toString('ascii', at + 4, at + 8);
+    const body = png.subarray(at + 8, at + 8 + length);
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      if (body[8] !== 8 || body[9] !== 0 || body[12] !== 0) throw new Error('Only 8-bit greyscale PNGs without interlacing are read');
+    } else if (type === 'IDAT') {
+      data.push(body);
+    }
+    at += length + 12;
+  }
+
+  const raw = inflateSync(Buffer.concat(data));
+  const pixels = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (width + 1)];
+    for (let x = 0; x < width; x++) {
+      const v = raw[y * (width + 1) + 1 + x];
+      const a = x > 0 ? pixels[y * width + x - 1] : 0;
+      const b = y > 0 ? pixels[(y - 1) * width + x] : 0;
+      const c = x > 0 && y > 0 ? pixels[(y - 1) * width + x - 1] : 0;
+      const predicted = filter === 1 ? a : filter === 2 ? b : filter === 3 ? (a + b) >> 1 : filter === 4 ? paeth(a, b, c) : 0;
+      pixels[y * width + x] = (v + predicted) & 0xff;
+    }
+  }
+  return { width, height, pixels };
+}
@@ -0,0 +1,83 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { OffsetPathPlugin, JoinType } from '../src/index';
+import { svg, tweenTo, boxOf } from './dom';
+
+const geometry = (el: Element, ...names: string[]) => names.map((name) => el.getAttribute(name));
+
+describe('native attributes', () => {
+  it('offsets a circle through r, keeping its centre', () => {
+    const root = svg('<circle cx="50" cy="40" r="20" fill="red"/>');
+    const circle = root.querySelector('circle')!;
+    tweenTo(circle, 5);
+    expect(geometry(circle, 'cx', 'cy', 'r')).toEqual(['50.00', '40.00', '25.00']);
+    expect(root.querySelector('path')).toBeNull();
+    expect(OffsetPathPlugin.getState(circle)?.bbox).toEqual({ x: 25, y: 15, width: 50, height: 50 });
+  });
+
+  it('hides a circle shrunk past its radius', () => {
+    const circle = svg('<circle cx="50" cy="50" r="10"/>').querySelector('circle')!;
+    tweenTo(circle, -12);
+    expect(circle.style.visibility).toBe('hidden');
+    expect(circle.getAttribute('r')).toBe('10');
+    expect(OffsetPathPlugin.getState(circle)?.collapsed).toBe(true);
+  });
+
+  it('rounds the corners of a rect grown with a round join', () => {
+    const rect = svg('<rect x="10" y="10" width="40" height="20"/>').querySelector('rect')!;
+    tweenTo(rect, 4);
+    expect(geometry(rect, 'x', 'y', 'width', 'height', 'rx', 'ry')).toEqual(['6.00', '6.00', '48.00', '28.00', '4.00', '4.00']);
+  });
+
+  it('keeps the corners of a rect grown with a miter join sharp', () => {
+    const rect = svg('<rect x="10" y="10" width="40" height="20"/>').querySelector('rect')!;
+    tweenTo(rect, { offset: 4, joinType: JoinType.Miter });
+    expect(geometry(rect, 'width', 'height', 'rx', 'ry')).toEqual(['48.00', '28.00', null, null]);
+  });
+
+  it('shrinks the corner radius of a rounded rect with it', () => {
+    const rect = svg('<rect width="40" height="40" rx="10"/>').querySelector('rect')!;
+    tweenTo(rect, -4);
+    expect(geometry(rect, 'x', 'width', 'rx')).toEqual(['4.00', '32.00', '6.00']);
+  });
+
+  it('keeps an origin of the box fixed', () => {
+    const rect = svg('<rect width="40" height="40"/>').querySelector('rect')!;
+    tweenTo(rect, { offset: 5, originX: 0, originY: 1, joinType: JoinType.Miter });
+    expect(geometry(rect, 'x', 'y', 'width', 'height')).toEqual(['0.00', '-10.00', '50.00', '50.00']);
+  });
+});
+
+describe('<path> proxy', () => {
+  it('draws an ellipse with a <path> carrying its other attributes', () => {
+    const root = svg('<ellipse class="blob" cx="50" cy="50" rx="30" ry="10" fill="red"/>');
+    const ellipse = root.querySelector('ellipse')!;
+    tweenTo(ellipse, 2);
+    const proxy = root.querySelector('path')!;
+    expect(ellipse.isConnected).toBe(false);
+    expect(proxy.getAttribute('class')).toBe('blob');
+    expect(proxy.getAttribute('fill')).toBe('red');
+    expect(proxy.hasAttribute('cx')).toBe(false);
+    expect(boxOf(proxy)).toMatchObject({ x: 18, width: 64 });
+    expect(OffsetPathPlugin.getState(ellipse)?.d).toBe(proxy.getAttribute('d'));
+  });
+
+  it('draws polygons and rects with uneven corners by proxy', () => {
+    const root = svg('<polygon points="0,0 40,0 20,30"/><rect width="40" height="20" rx="10" ry="5"/>');
+    const [polygon, rect] = [root.querySelector('polygon')!, root.querySelector('rect')!];
+    tweenTo(polygon, 2);
+    tweenTo(rect, 2);
+    expect(root.querySelectorAll('path')).toHaveLength(2);
+    expect(rect.getAttribute('width')).toBe('40');
+  });
+
+  it('puts back the attributes of a native shape when a later tween needs the proxy', () => {
+    const root = svg('<rect width="40" height="40"/>');
+    const rect = root.querySelector('rect')!;
+    tweenTo(rect, 4);
+    expect(rect.getAttribute('width')).toBe('48.00');
+    tweenTo(rect, { offset: 4, profile: [1, 2] });
+    expect(geometry(rect, 'x', 'width', 'rx')).toEqual([null, '40', null]);
+    expect(root.querySelector('path')).not.toBeNull();
+  });
+});
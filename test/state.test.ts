@@ -0,0 +1,95 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from 'vitest';
+import { OffsetPathPlugin, offsetPathData, JoinType } from '../src/index';
+import { svg, tweenTo } from './dom';
+
+const SQUARE = 'M 0 0 L 100 0 L 100 100 L 0 100 Z';
+// A square with a 20 × 20 hole
+const FRAME = `${SQUARE} M 40 40 L 40 60 L 60 60 L 60 40 Z`;
+
+const path = (d = SQUARE) => svg(`<path d="${d}"/>`).querySelector('path')!;
+
+describe('getState', () => {
+  it('is null, with an offset of 0, before the first frame', () => {
+    const el = path();
+    expect(OffsetPathPlugin.getState(el)).toBeNull();
+    expect(OffsetPathPlugin.getOffset(el)).toBe(0);
+  });
+
+  it('reads back the frame drawn, measured in user units', () => {
+    const el = path();
+    tweenTo(el, { offset: 5, joinType: JoinType.Miter });
+    expect(OffsetPathPlugin.getState(el)).toEqual({
+      offset: 5,
+      d: el.getAttribute('d'),
+      collapsed: false,
+      bbox: { x: -5, y: -5, width: 110, height: 110 },
+      area: 12100,
+    });
+    expect(OffsetPathPlugin.getOffset(el)).toBe(5);
+  });
+
+  it('subtracts holes from the area', () => {
+    const el = path(FRAME);
+    tweenTo(el, { offset: 5, joinType: JoinType.Miter });
+    expect(OffsetPathPlugin.getState(el)?.area).toBeCloseTo(110 * 110 - 10 * 10, 6);
+  });
+
+  it('follows the tween from frame to frame', () => {
+    const el = path();
+    const tween = tweenTo(el, { offset: -20, joinType: JoinType.Miter }, 0.25);
+    expect(OffsetPathPlugin.getState(el)).toMatchObject({ offset: -5, bbox: { width: 90 } });
+    tween.progress(0.5);
+    expect(OffsetPathPlugin.getState(el)).toMatchObject({ offset: -10, bbox: { width: 80 } });
+  });
+
+  it('reports a collapsed outline without geometry', () => {
+    const el = path();
+    tweenTo(el, -60);
+    expect(OffsetPathPlugin.getState(el)).toEqual({ offset: -60, d: '', collapsed: true, bbox: null, area: 0 });
+  });
+});
+
+describe('callbacks', () => {
+  it('call onOffsetUpdate after every frame, with getState already current', () => {
+    const el = path();
+    const seen: [string, number, unknown][] = [];
+    const onOffsetUpdate = vi.fn((d: string, offset: number, target: SVGElement) => {
+      seen.push([d, offset, OffsetPathPlugin.getState(target)?.d]);
+    });
+    const tween = tweenTo(el, { offset: 10, onOffsetUpdate }, 0.5);
+    tween.progress(1);
+    expect(onOffsetUpdate).toHaveBeenCalledWith(el.getAttribute('d'), 10, el);
+    expect(seen.map(([, offset]) => offset)).toEqual([5, 10]);
+    for (const [d, , state] of seen) expect(state).toBe(d);
+  });
+
+  it('call onCollapse and onRestore only on the change of state', () => {
+    const el = path();
+    const onCollapse = vi.fn();
+    const onRestore = vi.fn();
+    const onOffsetUpdate = vi.fn();
+    const tween = tweenTo(el, { offset: -80, onCollapse, onRestore, onOffsetUpdate }, 0.25);
+    for (const progress of [0.75, 0.875, 1]) tween.progress(progress);
+    expect(onCollapse).toHaveBeenCalledTimes(1);
+    expect(onCollapse).toHaveBeenCalledWith(el);
+    expect(el.style.visibility).toBe('hidden');
+    expect(onOffsetUpdate).toHaveBeenLastCalledWith('', -80, el);
+    expect(onRestore).not.toHaveBeenCalled();
+
+    for (const progress of [0.5, 0.25]) tween.progress(progress);
+    expect(onRestore).toHaveBeenCalledTimes(1);
+    expect(onRestore).toHaveBeenCalledWith(el);
+    expect(el.style.visibility).toBe('visible');
+    expect(el.getAttribute('d')).toBe(offsetPathData(SQUARE, { offset: -20 }));
+    expect(onCollapse).toHaveBeenCalledTimes(1);
+  });
+
+  it('start from the state the last tween left', () => {
+    const el = path();
+    tweenTo(el, -60);
+    const onRestore = vi.fn();
+    tweenTo(el, { offset: 0, onRestore }, 0.5);
+    expect(onRestore).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,167 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { offsetPathData, flatten } from '../src/index';
+import type { StrokeStyle } from '../src/index';
+import { measurePath } from '../src/offset';
+import { svg, tweenTo, boxOf } from './dom';
+
+const LINE = 'M 0 0 H 100';
+// A sharp corner at (20, 40): its miter reaches 1/sin(26.57°) = 2.236 half-widths
+const ZIGZAG = 'M 0 0 L 20 40 L 40 0';
+
+const outline = (d: string, stroke: StrokeStyle) => offsetPathData(d, { offset: 0, strokeOutline: stroke });
+const box = (d: string, stroke: StrokeStyle) => measurePath(outline(d, stroke)).bbox!;
+const pieces = (d: string, stroke: StrokeStyle) => flatten(outline(d, stroke))
+  .map(({ points }) => measurePath(points.map(([x, y], i) => `${i ? 'L' : 'M'} ${x} ${y}`).join(' ')).bbox!);
+
+describe('caps', () => {
+  it('ends butt caps at the ends of the path', () => {
+    expect(box(LINE, { width: 10 })).toMatchObject({ x: 0, y: -5, width: 100, height: 10 });
+  });
+
+  it('extends square caps by half the width', () => {
+    expect(box(LINE, { width: 10, linecap: 'square' })).toMatchObject({ x: -5, y: -5, width: 110, height: 10 });
+  });
+
+  it('rounds round caps about the ends', () => {
+    const d = outline(LINE, { width: 10, linecap: 'round' });
+    expect(measurePath(d).bbox).toMatchObject({ x: -5, y: -5, width: 110, height: 10 });
+    expect(flatten(d)[0].points.length).toBeGreaterThan(8);
+  });
+
+  it('is one unit wide by default', () => {
+    expect(box(LINE, {})).toMatchObject({ y: -0.5, height: 1 });
+  });
+
+  it('outlines closed subpaths inside and out, without caps', () => {
+    const square = 'M 0 0 H 10 V 10 H 0 Z';
+    const d = outline(square, { width: 2, linecap: 'round' });
+    expect(pieces(square, { width: 2, linecap: 'round' })).toEqual([
+      { x: -1, y: -1, width: 12, height: 12 },
+      { x: 1, y: 1, width: 8, height: 8 },
+    ]);
+    expect(flatten(d).every(({ points }) => points.length === 4)).toBe(true);
+  });
+});
+
+describe('joins', () => {
+  it('reaches the miter tip within the miter limit', () => {
+    expect(box(ZIGZAG, { width: 10 }).height).toBeCloseTo(2.236 + 40 + 5 * 2.236, 2);
+  });
+
+  it('bevels miters past the limit, as SVG does', () => {
+    const bevel = box(ZIGZAG, { width: 10, linejoin: 'bevel' });
+    expect(bevel.height).toBeCloseTo(2.236 + 40 + 2.236, 2);
+    expect(box(ZIGZAG, { width: 10, miterLimit: 2 })).toEqual(bevel);
+  });
+
+  it('rounds round joins at half the width', () => {
+    expect(box(ZIGZAG, { width: 10, linejoin: 'round' }).height).toBeCloseTo(2.236 + 40 + 5, 2);
+  });
+
+  it("draws 'miter-clip' and 'arcs' as 'miter'", () => {
+    const miter = outline(ZIGZAG, { width: 10 });
+    expect(outline(ZIGZAG, { width: 10, linejoin: 'miter-clip' })).toBe(miter);
+    expect(outline(ZIGZAG, { width: 10, linejoin: 'arcs' })).toBe(miter);
+  });
+});
+
+describe('dashes', () => {
+  const TWO_LINES = 'M 0 0 H 100 M 0 20 H 100';
+
+  it('outlines every dash with its own caps', () => {
+    const dashes = pieces(LINE, { width: 2, dasharray: [10, 10] });
+    expect(dashes.map(({ x, width }) => [x, width])).toEqual([[0, 10], [20, 10], [40, 10], [60, 10], [80, 10]]);
+    const round = pieces(LINE, { width: 2, dasharray: [10, 10], linecap: 'round' });
+    expect(round.map(({ x, width }) => [x, width])).toEqual([[-1, 12], [19, 12], [39, 12], [59, 12], [79, 12]]);
+  });
+
+  it('repeats an odd dasharray and starts from the dashoffset', () => {
+    const dashes = pieces(LINE, { width: 2, dasharray: [10], dashoffset: 5 });
+    expect(dashes.map(({ x, width }) => [x, width])).toEqual([[0, 5], [15, 10], [35, 10], [55, 10], [75, 10], [95, 5]]);
+  });
+
+  it('restarts the pattern on every subpath', () => {
+    const dashes = pieces(TWO_LINES, { width: 2, dasharray: [30, 10] });
+    const starts = (y: number) => dashes.filter((dash) => dash.y === y - 1).map(({ x }) => x);
+    expect(starts(0)).toEqual([0, 40, 80]);
+    expect(starts(20)).toEqual([0, 40, 80]);
+  });
+
+  it('draws a dasharray of zeros solid', () => {
+    expect(outline(LINE, { width: 2, dasharray: [0, 0] })).toBe(outline(LINE, { width: 2 }));
+  });
+});
+
+describe('stroke options', () => {
+  it('grows and shrinks the outline by the offset', () => {
+    const grown = measurePath(offsetPathData(LINE, { offset: 1, strokeOutline: { width: 2 } })).bbox!;
+    expect(grown).toMatchObject({ x: -1, y: -2, width: 102, height: 4 });
+    expect(offsetPathData(LINE, { offset: -1, strokeOutline: { width: 2 } })).toBe('');
+  });
+
+  it('outlines nothing for a stroke of width 0', () => {
+    expect(outline(LINE, { width: 0 })).toBe('');
+  });
+
+  it.each<[string, StrokeStyle]>([
+    ['a negative width', { width: -1 }],
+    ['a width of NaN', { width: NaN }],
+    ['a miter limit under 1', { miterLimit: 0.5 }],
+    ['a negative dash', { dasharray: [10, -1] }],
+    ['a dashoffset of NaN', { dashoffset: NaN }],
+  ])('rejects %s', (_, stroke) => {
+    expect(() => outline(LINE, stroke)).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+});
+
+describe('strokeOutline tweens', () => {
+  it("outlines the element's stroke and fills it with the stroke paint", () => {
+    const el = svg(`<path d="${LINE}" fill="blue" style="stroke: red; stroke-width: 4px; stroke-linecap: square"/>`)
+      .querySelector('path')!;
+    tweenTo(el, { offset: 1, strokeOutline: true });
+    expect(el.getAttribute('d')).toBe(offsetPathData(LINE, { offset: 1, strokeOutline: { width: 4, linecap: 'square' } }));
+    expect(boxOf(el)).toMatchObject({ x: -3, y: -3, width: 106, height: 6 });
+    expect(el.style.fill).toBe('red');
+    expect(el.style.stroke).toBe('none');
+  });
+
+  it('takes what the StrokeStyle sets over the stroke drawn', () => {
+    const el = svg(`<path d="${LINE}" style="stroke: red; stroke-width: 4px"/>`).querySelector('path')!;
+    tweenTo(el, { offset: 0, strokeOutline: { width: 10 } });
+    expect(boxOf(el)).toMatchObject({ y: -5, height: 10 });
+  });
+
+  it('outlines basic shapes through their <path>', () => {
+    const root = svg('<rect width="10" height="10" stroke="red" stroke-width="2"/>');
+    tweenTo(root.querySelector('rect')!, { offset: 0, strokeOutline: true });
+    const proxy = root.querySelector('path')!;
+    expect(flatten(proxy.getAttribute('d')!)).toHaveLength(2);
+    expect(boxOf(proxy)).toMatchObject({ x: -1, y: -1, width: 12, height: 12 });
+  });
+});
+
+describe('kill and revert', () => {
+  it("puts back the path data and inline style of the element's stroke", () => {
+    const el = svg(`<path d="${LINE}" style="stroke: red; stroke-width: 4px; fill: blue"/>`).querySelector('path')!;
+    const style = el.style.cssText;
+    const tween = tweenTo(el, { offset: 1, strokeOutline: true }, 0.5);
+    expect(el.style.stroke).toBe('none');
+
+    tween.kill(el, 'offsetPath');
+    expect(el.getAttribute('d')).toBe(LINE);
+    expect(el.style.fill).toBe('blue');
+    expect(el.style.stroke).toBe('red');
+    expect(el.style.cssText).toBe(style);
+  });
+
+  it('swaps the stroked shape back in when the tween is reverted', () => {
+    const root = svg('<rect width="10" height="10" stroke="red" stroke-width="2"/>');
+    const rect = root.querySelector('rect')!;
+    tweenTo(rect, { offset: 0, strokeOutline: true }, 0.5).revert();
+    expect(root.querySelector('rect')).toBe(rect);
+    expect(root.querySelector('path')).toBeNull();
+    expect(rect.getAttribute('stroke')).toBe('red');
+    expect(rect.style.fill).toBe('');
+  });
+});
@@ -0,0 +1,92 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { offsetPathData, JoinType } from '../src/index';
+import type { Matrix } from '../src/index';
+import { svg, tweenTo, boxOf } from './dom';
+
+const SQUARE = 'M 0 0 L 100 0 L 100 100 L 0 100 Z';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const scale = (a: number, d = a): Matrix => ({ a, b: 0, c: 0, d, e: 0, f: 0 });
+
+// Gives `el` a fixed screen CTM, as a layout would
+function onScreen<T extends Element>(el: T, ctm: Matrix): T {
+  return Object.assign(el, { getScreenCTM: () => ctm });
+}
+
+describe('units', () => {
+  it("measures 'screen' offsets in CSS pixels", () => {
+    const el = onScreen(svg(`<path d="${SQUARE}"/>`).querySelector('path')!, scale(2));
+    tweenTo(el, { offset: 4, units: 'screen', joinType: JoinType.Miter });
+    // 4 pixels are 2 user units
+    expect(boxOf(el)).toEqual({ x: -2, y: -2, width: 104, height: 104 });
+  });
+
+  it('keeps the offset as wide in every direction under a non-uniform scale', () => {
+    const el = onScreen(svg(`<path d="${SQUARE}"/>`).querySelector('path')!, scale(2, 1));
+    tweenTo(el, { offset: 4, units: 'screen', joinType: JoinType.Miter });
+    expect(boxOf(el)).toEqual({ x: -2, y: -4, width: 104, height: 108 });
+  });
+
+  it('measures offsets in the user units of an ancestor', () => {
+    const root = onScreen(svg(`<g><path d="${SQUARE}"/></g>`), scale(2));
+    const el = onScreen(root.querySelector('path')!, scale(8));
+    tweenTo(el, { offset: 4, units: root, joinType: JoinType.Miter });
+    // The path is drawn 4 times the size of the <svg>'s units
+    expect(boxOf(el)).toEqual({ x: -1, y: -1, width: 102, height: 102 });
+  });
+
+  it('reads the CTM again on every frame', () => {
+    let ctm = scale(1);
+    const el = Object.assign(svg(`<path d="${SQUARE}"/>`).querySelector('path')!, { getScreenCTM: () => ctm });
+    const tween = tweenTo(el, { offset: 4, units: 'screen', joinType: JoinType.Miter }, 0.5);
+    expect(boxOf(el)?.width).toBe(104);
+    ctm = scale(4);
+    tween.progress(1);
+    expect(boxOf(el)?.width).toBe(102);
+  });
+
+  it("leaves 'user' offsets alone whatever the CTM", () => {
+    const el = onScreen(svg(`<path d="${SQUARE}"/>`).querySelector('path')!, scale(2));
+    tweenTo(el, { offset: 4, joinType: JoinType.Miter });
+    expect(boxOf(el)?.width).toBe(108);
+  });
+});
+
+describe('transform', () => {
+  it('measures the offset through a fixed matrix', () => {
+    const el = svg(`<path d="${SQUARE}"/>`).querySelector('path')!;
+    tweenTo(el, { offset: 4, transform: scale(4, 2), joinType: JoinType.Miter });
+    expect(boxOf(el)).toEqual({ x: -1, y: -2, width: 102, height: 104 });
+  });
+
+  it('takes the same matrix in the standalone API', () => {
+    const el = svg(`<path d="${SQUARE}"/>`).querySelector('path')!;
+    const options = { offset: 4, transform: scale(4, 2), joinType: JoinType.Round };
+    tweenTo(el, options);
+    expect(el.getAttribute('d')).toBe(offsetPathData(SQUARE, options));
+  });
+});
+
+describe('basic shapes', () => {
+  it('offsets a circle through r under a uniform scale', () => {
+    const root = svg('<circle cx="50" cy="50" r="20"/>');
+    const circle = onScreen(root.querySelector('circle')!, scale(2));
+    tweenTo(circle, { offset: 4, units: 'screen' });
+    expect(circle.getAttribute('r')).toBe('22.00');
+    expect(root.querySelector('path')).toBeNull();
+  });
+
+  it('draws a circle by proxy under a non-uniform scale', () => {
+    // The proxy takes the circle's place, and its CTM with it
+    vi.spyOn(SVGGraphicsElement.prototype, 'getScreenCTM').mockReturnValue(scale(2, 1) as DOMMatrix);
+    const root = svg('<circle cx="50" cy="50" r="20"/>');
+    const circle = root.querySelector('circle')!;
+    tweenTo(circle, { offset: 4, units: 'screen' });
+    expect(circle.getAttribute('r')).toBe('20');
+    expect(boxOf(root.querySelector('path')!)).toMatchObject({ width: 44, height: 48 });
+  });
+});
@@ -0,0 +1,175 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import gsap from 'gsap';
+import { OffsetPathPlugin, offsetPathData, JoinType } from '../src/index';
+import { parseValue, applyValue, resolveNumbers, resolveOffset, targetVars } from '../src/values';
+import { FIXTURES } from './fixtures';
+import { svg, tweenTo, boxOf } from './dom';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseValue', () => {
+  it.each([
+    [4, { relative: null, amount: 4, unit: null }],
+    ['-2.5', { relative: null, amount: -2.5, unit: null }],
+    ['+=3', { relative: '+', amount: 3, unit: null }],
+    ['-= 1e1', { relative: '-', amount: 10, unit: null }],
+    ['*=.5', { relative: '*', amount: 0.5, unit: null }],
+    ['/=2', { relative: '/', amount: 2, unit: null }],
+    ['5PX', { relative: null, amount: 5, unit: 'px' }],
+    [' 10% ', { relative: null, amount: 10, unit: '%' }],
+    ['+=0.5em', { relative: '+', amount: 0.5, unit: 'em' }],
+  ])('reads %j', (value, parsed) => {
+    expect(parseValue(value, 'offset', true)).toEqual(parsed);
+  });
+
+  it.each(['', 'abc', '5pt', '+5=', '%5', {}, null, undefined])('rejects %j', (value) => {
+    expect(() => parseValue(value, 'offset', true)).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+
+  it('takes units only where they are allowed', () => {
+    expect(() => parseValue('5px', 'miterLimit')).toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+
+  it('only scales by plain numbers', () => {
+    expect(() => parseValue('*=2%', 'offset', true)).toThrow(/plain number/);
+    expect(() => parseValue('/=1em', 'offset', true)).toThrow(/plain number/);
+  });
+});
+
+describe('applyValue', () => {
+  it('applies relative values to the base, in units of the unit size', () => {
+    expect(applyValue(parseValue('+=2', 'x'), 5)).toBe(7);
+    expect(applyValue(parseValue('-=2', 'x'), 5)).toBe(3);
+    expect(applyValue(parseValue('*=2', 'x'), 5)).toBe(10);
+    expect(applyValue(parseValue('/=2', 'x'), 5)).toBe(2.5);
+    expect(applyValue(parseValue('3', 'x'), 5)).toBe(3);
+    expect(applyValue(parseValue('+=2em', 'x', true), 5, 16)).toBe(37);
+  });
+});
+
+describe('resolveNumbers', () => {
+  it('resolves relative options from the defaults, or the options last rendered', () => {
+    const vars: Record<string, any> = { miterLimit: '*=3', roundness: '+=0.5', precision: '3', offset: '+=1' };
+    resolveNumbers(vars);
+    expect(vars).toEqual({ miterLimit: 6, roundness: 0.5, precision: 3, offset: '+=1' });
+
+    const again: Record<string, any> = { miterLimit: '-=1' };
+    resolveNumbers(again, { miterLimit: 6 } as any);
+    expect(again.miterLimit).toBe(5);
+  });
+
+  it("leaves numbers and quality 'auto' alone", () => {
+    const vars: Record<string, any> = { miterLimit: 3, quality: 'auto' };
+    resolveNumbers(vars);
+    expect(vars).toEqual({ miterLimit: 3, quality: 'auto' });
+  });
+});
+
+describe('targetVars', () => {
+  it('takes a number or string alone as the offset', () => {
+    expect(targetVars(5, null, 0, null, [])).toEqual({ offset: 5 });
+    expect(targetVars('+=2', null, 0, null, [])).toEqual({ offset: '+=2' });
+  });
+
+  it('calls function values with the index, target and targets', () => {
+    const targets = ['a', 'b'];
+    const offset = vi.fn((i: number) => i * 10);
+    expect(targetVars({ offset, miterLimit: () => 3 }, null, 1, 'b', targets)).toEqual({ offset: 10, miterLimit: 3 });
+    expect(offset).toHaveBeenCalledWith(1, 'b', targets);
+    expect(targetVars((i: number) => ({ offset: i + 1 }), null, 2, 'c', targets)).toEqual({ offset: 3 });
+  });
+
+  it('keeps functions that are options in their own right', () => {
+    const profile = (t: number) => t;
+    const onCollapse = () => {};
+    expect(targetVars({ offset: 1, profile, onCollapse }, null, 0, null, [])).toEqual({ offset: 1, profile, onCollapse });
+  });
+
+  it('replaces random(…) as GSAP does', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(targetVars('random(0, 10)', null, 0, null, [])).toEqual({ offset: '5' });
+    expect(targetVars('+=random(0, 9, 2)', null, 0, null, [])).toEqual({ offset: '+=4' });
+    expect(targetVars({ offset: 'random([1, 2, 3])px' }, null, 0, null, [])).toEqual({ offset: '2px' });
+  });
+});
+
+describe('resolveOffset', () => {
+  const el = () => svg(`<path d="${FIXTURES.square}"/>`).querySelector('path')!;
+
+  it('takes % of the diagonal of the bounding box', () => {
+    expect(resolveOffset(parseValue('10%', 'offset', true), 0, FIXTURES.square, el())).toBeCloseTo(Math.hypot(100, 100) / 10, 10);
+    expect(resolveOffset(parseValue('10%', 'offset', true), 0, null, el())).toBe(0);
+  });
+
+  it('takes em of the font size, 16 without one', () => {
+    const path = el();
+    expect(resolveOffset(parseValue('0.5em', 'offset', true), 0, null, path)).toBe(8);
+    path.style.fontSize = '20px';
+    expect(resolveOffset(parseValue('-=0.5em', 'offset', true), 0, null, path)).toBe(-10);
+  });
+
+  it('takes px as SVG units', () => {
+    expect(resolveOffset(parseValue('+=3px', 'offset', true), 2, null, el())).toBe(5);
+  });
+});
+
+describe('tween values', () => {
+  const path = () => svg(`<path d="${FIXTURES.square}"/>`).querySelector('path')!;
+
+  it('tweens relative offsets from the last one', () => {
+    const el = path();
+    tweenTo(el, 4);
+    tweenTo(el, '+=2');
+    expect(OffsetPathPlugin.getOffset(el)).toBe(6);
+    tweenTo(el, '*=0.5');
+    expect(OffsetPathPlugin.getOffset(el)).toBe(3);
+    expect(boxOf(el)?.width).toBeCloseTo(106, 1);
+  });
+
+  it('gives each target its own function value and random value', () => {
+    const root = svg(`<path d="${FIXTURES.square}"/><path d="${FIXTURES.square}"/>`);
+    const els = Array.from(root.querySelectorAll('path'));
+    gsap.to(els, { offsetPath: (i: number) => (i + 1) * 2, duration: 1, paused: true }).progress(1);
+    expect(els.map((el) => OffsetPathPlugin.getOffset(el))).toEqual([2, 4]);
+
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.99);
+    gsap.to(els, { offsetPath: { offset: 'random([1, 5])' }, duration: 1, paused: true }).progress(1);
+    expect(els.map((el) => OffsetPathPlugin.getOffset(el))).toEqual([1, 5]);
+  });
+
+  it('tweens % and em offsets', () => {
+    const el = path();
+    tweenTo(el, '5%');
+    expect(OffsetPathPlugin.getOffset(el)).toBeCloseTo(Math.hypot(100, 100) / 20, 10);
+    el.style.fontSize = '10px';
+    tweenTo(el, '+=1em');
+    expect(OffsetPathPlugin.getOffset(el)).toBeCloseTo(Math.hypot(100, 100) / 20 + 10, 10);
+  });
+
+  it('tweens relative options from the last ones', () => {
+    const el = svg(`<path d="${FIXTURES.star}"/>`).querySelector('path')!;
+    // The star's tips need a limit of 3.24: 4 reaches them, 2 cuts them off
+    const miter = (miterLimit: number) => offsetPathData(FIXTURES.star, { offset: 5, joinType: JoinType.Miter, miterLimit });
+    expect(miter(4)).not.toBe(miter(2));
+    tweenTo(el, { offset: 5, joinType: JoinType.Miter, miterLimit: '*=2' });
+    expect(el.getAttribute('d')).toBe(miter(4));
+    tweenTo(el, { offset: 5, joinType: JoinType.Miter, miterLimit: '/=2' });
+    expect(el.getAttribute('d')).toBe(miter(2));
+  });
+
+  it('warns of values it cannot read and leaves the path as drawn', () => {
+    const el = path();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    tweenTo(el, '5 units');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('offset must be a number'), el);
+    expect(el.getAttribute('d')).toBe(FIXTURES.square);
+  });
+
+  it('throws them in strict mode', () => {
+    expect(() => tweenTo(path(), { offset: 5, miterLimit: 'wide', strict: true }))
+      .toThrow(expect.objectContaining({ code: 'InvalidOption' }));
+  });
+});
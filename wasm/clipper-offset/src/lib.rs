@@ -53,8 +53,9 @@ impl From<PathError> for JsValue {
     }
 }
 
-// Parse SVG path and flatten curves to line segments using lyon
-fn parse_svg_path_with_lyon(path_data: &str, tolerance: f64, scale: f64) -> Result<Path64, PathError> {
+// Parse SVG path and flatten curves to line segments using lyon, one Path64
+// per subpath
+fn parse_svg_path_with_lyon(path_data: &str, tolerance: f64, scale: f64) -> Result<Paths64, PathError> {
     use lyon_path::{Path as LyonPath, PathEvent};
     use lyon_path::iterator::PathIterator;
 
@@ -75,49 +76,86 @@ fn parse_svg_path_with_lyon(path_data: &str, tolerance: f64, scale: f64) -> Resu
     let lyon_path = builder.build();
 
     // Flatten curves to line segments
-    let mut clipper_path = Path64::new();
+    let mut clipper_paths = Paths64::new();
+    let mut current = Path64::new();
 
     for event in lyon_path.iter().flattened(tolerance as f32) {
         match event {
             PathEvent::Begin { at } => {
-                clipper_path.push(Point64::new(
+                current.push(Point64::new(
                     (at.x as f64 * scale) as i64,
                     (at.y as f64 * scale) as i64,
                 ));
             }
             PathEvent::Line { to, .. } => {
-                clipper_path.push(Point64::new(
+                current.push(Point64::new(
                     (to.x as f64 * scale) as i64,
                     (to.y as f64 * scale) as i64,
                 ));
             }
             PathEvent::End { close: _, .. } => {
-                // Path segment ended
+                // Subpath ended
+                if !current.is_empty() {
+                    clipper_paths.push(std::mem::replace(&mut current, Path64::new()));
+                }
             }
             _ => {}
         }
     }
 
-    if clipper_path.is_empty() {
+    if clipper_paths.is_empty() {
         return Err(PathError::EmptyPath);
     }
 
-    // Calculate signed area to determine winding order
-    // Using the shoelace formula
-    let mut signed_area: f64 = 0.0;
-    for i in 0..clipper_path.len() {
-        let j = (i + 1) % clipper_path.len();
-        signed_area += (clipper_path[j].x - clipper_path[i].x) as f64
-                     * (clipper_path[j].y + clipper_path[i].y) as f64;
+    normalize_winding(&mut clipper_paths);
+    Ok(clipper_paths)
+}
+
+// Shoelace sum: negative for paths that run clockwise on screen (Y-down)
+fn signed_area(path: &Path64) -> f64 {
+    let mut area: f64 = 0.0;
+    for i in 0..path.len() {
+        let j = (i + 1) % path.len();
+        area += (path[j].x - path[i].x) as f64 * (path[j].y + path[i].y) as f64;
     }
+    area
+}
 
-    // Clipper2 expects CCW winding for outer paths
-    // In screen coordinates (Y-down), positive area = CW = needs reversal
-    if signed_area > 0.0 {
-        clipper_path.reverse();
+// Even-odd point in polygon test (ray cast along +x)
+fn contains(path: &Path64, pt: &Point64) -> bool {
+    let (px, py) = (pt.x as f64, pt.y as f64);
+    let mut inside = false;
+    let mut j = path.len().wrapping_sub(1);
+    for i in 0..path.len() {
+        let (xi, yi) = (path[i].x as f64, path[i].y as f64);
+        let (xj, yj) = (path[j].x as f64, path[j].y as f64);
+        if (yi > py) != (yj > py) && px < (xj - xi) * (py - yi) / (yj - yi) + xi {
+            inside = !inside;
+        }
+        j = i;
     }
+    inside
+}
 
-    Ok(clipper_path)
+// Outer paths run one way and holes the other, by how many other subpaths
+// enclose them (as the TypeScript engine does), so Clipper2 cuts the holes
+// out whichever way the SVG drew them
+fn normalize_winding(paths: &mut Paths64) {
+    let depths: Vec<usize> = (0..paths.len())
+        .map(|i| {
+            (0..paths.len())
+                .filter(|&j| j != i && paths[j].len() >= 3 && contains(&paths[j], &paths[i][0]))
+                .count()
+        })
+        .collect();
+
+    for (path, depth) in paths.iter_mut().zip(depths) {
+        let is_hole = depth % 2 == 1;
+        // Outer paths get a negative sum (clockwise on screen), holes a positive one
+        if (signed_area(path) > 0.0) != is_hole {
+            path.reverse();
+        }
+    }
 }
 
 // Simple SVG parser that converts to lyon path events
@@ -311,13 +349,13 @@ fn parse_float(chars: &mut std::iter::Peekable<std::str::Chars>) -> Result<f64,
         .map_err(|_| format!("Invalid number: {}", num_str))
 }
 
-// Compute bounding box of a Path64: (min_x, min_y, max_x, max_y)
-fn bbox(path: &Path64) -> (i64, i64, i64, i64) {
+// Compute bounding box of every point in Paths64: (min_x, min_y, max_x, max_y)
+fn bbox(paths: &Paths64) -> (i64, i64, i64, i64) {
     let mut min_x = i64::MAX;
     let mut min_y = i64::MAX;
     let mut max_x = i64::MIN;
     let mut max_y = i64::MIN;
-    for p in path.iter() {
+    for p in paths.iter().flat_map(|path| path.iter()) {
         min_x = min_x.min(p.x);
         min_y = min_y.min(p.y);
         max_x = max_x.max(p.x);
@@ -326,6 +364,25 @@ fn bbox(path: &Path64) -> (i64, i64, i64, i64) {
     (min_x, min_y, max_x, max_y)
 }
 
+fn to_clipper_join_type(join_type: JoinType) -> ClipperJoinType {
+    match join_type {
+        JoinType::Square => ClipperJoinType::Square,
+        JoinType::Bevel => ClipperJoinType::Bevel,
+        JoinType::Round => ClipperJoinType::Round,
+        JoinType::Miter => ClipperJoinType::Miter,
+    }
+}
+
+fn to_clipper_end_type(end_type: EndType) -> ClipperEndType {
+    match end_type {
+        EndType::Polygon => ClipperEndType::Polygon,
+        EndType::Joined => ClipperEndType::Joined,
+        EndType::Butt => ClipperEndType::Butt,
+        EndType::Square => ClipperEndType::Square,
+        EndType::Round => ClipperEndType::Round,
+    }
+}
+
 // Convert Clipper2 Path64 back to SVG path string
 fn path64_to_svg(path: &Path64, scale: f64) -> String {
     if path.is_empty() {
@@ -388,37 +445,20 @@ pub fn offset_svg_path(
     let flatten_tolerance = 0.1;
 
     // Parse SVG path and flatten curves to line segments
-    let path = parse_svg_path_with_lyon(path_data, flatten_tolerance, scale)?;
+    let paths = parse_svg_path_with_lyon(path_data, flatten_tolerance, scale)?;
 
     // Validate path before offsetting
-    if path.len() < 3 {
+    if paths.iter().all(|path| path.len() < 3) {
         return Err(PathError::InvalidPathData(
-            format!("Path must have at least 3 points, got {}", path.len())
+            "Path must have a subpath of at least 3 points".to_string()
         ).into());
     }
 
-    // Convert join type
-    let clipper_join_type = match join_type {
-        JoinType::Square => ClipperJoinType::Square,
-        JoinType::Bevel => ClipperJoinType::Bevel,
-        JoinType::Round => ClipperJoinType::Round,
-        JoinType::Miter => ClipperJoinType::Miter,
-    };
-
-    // Convert end type
-    let clipper_end_type = match end_type {
-        EndType::Polygon => ClipperEndType::Polygon,
-        EndType::Joined => ClipperEndType::Joined,
-        EndType::Butt => ClipperEndType::Butt,
-        EndType::Square => ClipperEndType::Square,
-        EndType::Round => ClipperEndType::Round,
-    };
-
     // Create ClipperOffset instance
     let mut clipper = ClipperOffset::new(miter_limit, arc_tolerance, false, false);
 
-    // Add path
-    clipper.add_path(&path, clipper_join_type, clipper_end_type);
+    // Add every subpath
+    clipper.add_paths(&paths, to_clipper_join_type(join_type), to_clipper_end_type(end_type));
 
     // Execute offset
     let mut offset_paths = Paths64::new();
@@ -430,9 +470,9 @@ pub fn offset_svg_path(
         return Ok(String::new());
     }
 
-    // Pin anchor point: translate offset path so the origin stays fixed
-    let (orig_min_x, orig_min_y, orig_max_x, orig_max_y) = bbox(&path);
-    let (off_min_x, off_min_y, off_max_x, off_max_y) = bbox(&offset_paths[0]);
+    // Pin anchor point: translate offset paths so the origin stays fixed
+    let (orig_min_x, orig_min_y, orig_max_x, orig_max_y) = bbox(&paths);
+    let (off_min_x, off_min_y, off_max_x, off_max_y) = bbox(&offset_paths);
 
     let dx = origin_x.map_or(0, |x| {
         let anchor_x = orig_min_x as f64 + (orig_max_x - orig_min_x) as f64 * x;
@@ -446,16 +486,86 @@ pub fn offset_svg_path(
         (anchor_y - off_anchor_y) as i64
     });
 
-    for point in offset_paths[0].iter_mut() {
+    for point in offset_paths.iter_mut().flat_map(|path| path.iter_mut()) {
         point.x += dx;
         point.y += dy;
     }
 
-    let result_svg = path64_to_svg(&offset_paths[0], scale);
+    let result_svg = paths64_to_svg(&offset_paths, scale);
 
     Ok(result_svg)
 }
 
+// Paths64 → one flat [x0, y0, x1, y1, …] array per path, for JS
+fn paths64_to_coords(paths: &Paths64) -> Vec<Vec<f64>> {
+    paths.iter()
+        .filter(|p| !p.is_empty())
+        .map(|p| p.iter().flat_map(|pt| [pt.x as f64, pt.y as f64]).collect())
+        .collect()
+}
+
+// Offset already-flattened paths (the TypeScript plugin's rings) and return
+// every resulting path. Coordinates and delta are in integer Clipper units;
+// `closed[i] == 0` marks an open path.
+#[wasm_bindgen]
+pub fn offset_paths(
+    paths: JsValue,
+    closed: Vec<u8>,
+    delta: f64,
+    join_type: JoinType,
+    end_type: EndType,
+    miter_limit: f64,
+    arc_tolerance: f64,
+) -> Result<JsValue, JsValue> {
+    if delta.is_nan() || delta.is_infinite() {
+        return Err(PathError::InvalidPathData("Offset amount is NaN or infinite".to_string()).into());
+    }
+
+    let coords: Vec<Vec<f64>> = serde_wasm_bindgen::from_value(paths)
+        .map_err(|e| PathError::InvalidPathData(e.to_string()))?;
+
+    let mut closed_paths = Paths64::new();
+    let mut open_paths = Paths64::new();
+    for (i, flat) in coords.iter().enumerate() {
+        let path: Path64 = flat
+            .chunks_exact(2)
+            .map(|p| Point64::new(p[0].round() as i64, p[1].round() as i64))
+            .collect();
+        // Filled as polygons, open paths are closed like any other
+        if closed.get(i).copied().unwrap_or(1) != 0 || matches!(end_type, EndType::Polygon) {
+            closed_paths.push(path);
+        } else {
+            open_paths.push(path);
+        }
+    }
+
+    let clipper_join_type = to_clipper_join_type(join_type);
+    let mut clipper = ClipperOffset::new(miter_limit, arc_tolerance, false, false);
+
+    // Closed paths are filled, or outlined on both sides by every other end type
+    let closed_end_type = match end_type {
+        EndType::Polygon => ClipperEndType::Polygon,
+        _ => ClipperEndType::Joined,
+    };
+    if !closed_paths.is_empty() {
+        clipper.add_paths(&closed_paths, clipper_join_type, closed_end_type);
+    }
+    if !open_paths.is_empty() {
+        // Joined closes open paths too; the others cap their ends
+        clipper.add_paths(&open_paths, clipper_join_type, to_clipper_end_type(end_type));
+    }
+
+    // Outlines are |delta| wide on each side
+    let amount = match end_type {
+        EndType::Polygon => delta,
+        _ => delta.abs(),
+    };
+    let mut offset_result = Paths64::new();
+    clipper.execute(amount, &mut offset_result);
+
+    serde_wasm_bindgen::to_value(&paths64_to_coords(&offset_result)).map_err(JsValue::from)
+}
+
 // Simplified version with default options
 #[wasm_bindgen]
 pub fn offset_svg_path_simple(
@@ -507,8 +617,27 @@ mod tests {
         let path = "M 0 0 L 100 0 L 100 100 Z";
         let result = parse_svg_path_with_lyon(path, 0.1, 1000.0);
         assert!(result.is_ok());
-        let clipper_path = result.unwrap();
-        assert!(!clipper_path.is_empty());
+        let clipper_paths = result.unwrap();
+        assert_eq!(clipper_paths.len(), 1);
+        assert!(!clipper_paths[0].is_empty());
+    }
+
+    #[test]
+    fn test_parse_subpaths() {
+        // Square with a square hole drawn the same way round
+        let path = "M 0 0 L 100 0 L 100 100 L 0 100 Z M 25 25 L 75 25 L 75 75 L 25 75 Z";
+        let paths = parse_svg_path_with_lyon(path, 0.1, 1000.0).unwrap();
+        assert_eq!(paths.len(), 2);
+        // The hole is reversed to run against the outer path
+        assert!(signed_area(&paths[0]) < 0.0);
+        assert!(signed_area(&paths[1]) > 0.0);
+    }
+
+    #[test]
+    fn test_offset_keeps_every_path() {
+        let path = "M 0 0 L 10 0 L 10 10 L 0 10 Z M 50 0 L 60 0 L 60 10 L 50 10 Z";
+        let result = offset_svg_path(path, 2.0, JoinType::Miter, EndType::Polygon, 2.0, 0.25, None, None).unwrap();
+        assert_eq!(result.matches('M').count(), 2);
     }
 
     #[test]
@@ -517,10 +646,10 @@ mod tests {
         let path = "M 0 0 C 10 10 20 20 30 30 Z";
         let result = parse_svg_path_with_lyon(path, 0.1, 1000.0);
         assert!(result.is_ok());
-        let clipper_path = result.unwrap();
-        assert!(!clipper_path.is_empty());
+        let clipper_paths = result.unwrap();
+        assert!(!clipper_paths.is_empty());
         // Should have more than 2 points due to curve flattening
-        assert!(clipper_path.len() > 2);
+        assert!(clipper_paths[0].len() > 2);
     }
 
     #[test]
@@ -535,4 +664,68 @@ mod tests {
         assert!(validate_svg_path("M 0 0 C 10 10 20 20 30 30 Z"));
         assert!(!validate_svg_path("INVALID"));
     }
+
+    #[test]
+    fn test_normalize_winding_by_depth() {
+        // Outer square, a hole and an island in it, all drawn the same way
+        // round, and an open segment that encloses nothing
+        let square = |min: i64, max: i64| -> Path64 {
+            vec![Point64::new(min, min), Point64::new(min, max), Point64::new(max, max), Point64::new(max, min)]
+        };
+        let segment: Path64 = vec![Point64::new(25, 25), Point64::new(35, 35)];
+        let mut paths: Paths64 = vec![square(0, 100), square(20, 80), square(40, 60), segment.clone()];
+        normalize_winding(&mut paths);
+        assert!(signed_area(&paths[0]) < 0.0);
+        assert!(signed_area(&paths[1]) > 0.0);
+        assert!(signed_area(&paths[2]) < 0.0);
+        assert_eq!(paths[3], segment);
+    }
+}
+
+// The JsValue binding, run under wasm: wasm-pack test --node wasm/clipper-offset
+#[cfg(all(test, target_arch = "wasm32"))]
+mod wasm_tests {
+    use super::*;
+    use wasm_bindgen_test::*;
+
+    fn offset(paths: &Vec<Vec<f64>>, closed: Vec<u8>, delta: f64, end_type: EndType) -> Vec<Vec<f64>> {
+        let paths = serde_wasm_bindgen::to_value(paths).unwrap();
+        let result = offset_paths(paths, closed, delta, JoinType::Miter, end_type, 2.0, 0.25).unwrap();
+        serde_wasm_bindgen::from_value(result).unwrap()
+    }
+
+    // (min_x, min_y, max_x, max_y) of a flat [x0, y0, x1, y1, …] path
+    fn bounds(flat: &[f64]) -> (f64, f64, f64, f64) {
+        flat.chunks_exact(2).fold((f64::MAX, f64::MAX, f64::MIN, f64::MIN), |(x0, y0, x1, y1), p| {
+            (x0.min(p[0]), y0.min(p[1]), x1.max(p[0]), y1.max(p[1]))
+        })
+    }
+
+    #[wasm_bindgen_test]
+    fn test_offset_paths_mixed_open_and_closed() {
+        // A closed square and an open line
+        let square = vec![0.0, 0.0, 0.0, 10000.0, 10000.0, 10000.0, 10000.0, 0.0];
+        let line = vec![20000.0, 0.0, 30000.0, 0.0];
+        let paths = vec![square, line];
+
+        // Butt ends: the square is outlined on both sides, the line capped flat
+        let outlined = offset(&paths, vec![1, 0], -1000.0, EndType::Butt);
+        assert_eq!(outlined.len(), 3);
+        let capped: Vec<_> = outlined.iter().map(|p| bounds(p)).filter(|b| b.0 >= 15000.0).collect();
+        assert_eq!(capped, vec![(20000.0, -1000.0, 30000.0, 1000.0)]);
+        let rings: Vec<_> = outlined.iter().map(|p| bounds(p)).filter(|b| b.0 < 15000.0).collect();
+        assert!(rings.contains(&(-1000.0, -1000.0, 11000.0, 11000.0)));
+        assert!(rings.contains(&(1000.0, 1000.0, 9000.0, 9000.0)));
+
+        // Filled as polygons, the open flag is ignored and the square grows
+        let filled = offset(&paths[..1].to_vec(), vec![0], 1000.0, EndType::Polygon);
+        assert_eq!(filled.len(), 1);
+        assert_eq!(bounds(&filled[0]), (-1000.0, -1000.0, 11000.0, 11000.0));
+    }
+
+    #[wasm_bindgen_test]
+    fn test_offset_paths_rejects_nan() {
+        let paths = serde_wasm_bindgen::to_value(&vec![vec![0.0, 0.0, 10.0, 0.0, 10.0, 10.0]]).unwrap();
+        assert!(offset_paths(paths, vec![1], f64::NAN, JoinType::Round, EndType::Polygon, 2.0, 0.25).is_err());
+    }
 }